@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   Navigation, 
   XCircle, 
@@ -16,6 +16,7 @@ import {
   ChevronLeft,
   Users,
   Volume2,
+  VolumeX,
   ArrowRight,
   Info,
   Moon,
@@ -23,18 +24,93 @@ import {
   History,
   Map as MapIcon,
   Compass,
+  ListOrdered,
+  Settings,
+  ClipboardCheck,
+  FileUp,
+  Wifi,
+  WifiOff,
+  Bug,
+  Mic,
+  Coffee,
+  Play,
+  MicOff,
+  LandPlot,
+  Car,
+  Bike,
+  Footprints,
   Navigation as NavigationIcon
 } from 'lucide-react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle, Polygon, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { BusinessPoint, Location, TrackingPath, District } from './types';
-import { speakStatus, getGeminiAI } from './services/geminiService';
+import { BusinessPoint, Location, GpsFix, TrackingPath, District, RouteHistory, PlannedStop, RouteStep, CheckIn, VisitOutcome, VisitRecord, ShiftState, ShiftTransition, TerritoryPlan } from './types';
+import { speakStatus, speechManager } from './services/speechService';
+import { saveShift, listShifts, deleteShift } from './services/historyService';
+import { AvailabilityFn, fetchTravelTimes, pickReachableStop, planRoute } from './services/routePlanner';
+import { createRouter, StreetRoute, formatDuration, formatArrivalTime, TRAVEL_PROFILES, profileHasOwnRoutes } from './services/routingService';
+import { projectOntoPolyline, distanceAlongPolyline, haversineDistance, pathDistanceKm } from './services/geoUtils';
+import { createGeofenceEngine } from './services/geofenceService';
+import { createTrackFilter } from './services/trackFilter';
+import { LocationSource, PlaybackSource, PlaybackState, createBrowserSource, createReplaySource, createRouteSimulator, hasTimestamps, isPlaybackSource } from './services/locationSources';
+import { ReplayEvent, buildReplayEvents, replayHeading } from './services/replayService';
+import { saveCheckIn, listCheckIns, listAllCheckIns } from './services/checkInService';
+import { saveVisit, listVisits, listAllVisits } from './services/visitService';
+import { ExportFormat, downloadExport, parseTrackFile } from './services/exportService';
+import { CityData, SchemaError, assertInServiceArea } from './services/responseSchemas';
+import { createProvider, fetchCityDataFrom } from './services/providers';
+import { BusinessSource, stablePlaceId, refreshBusinesses, mergeDistricts, loadCityPlaces, saveCityPlaces, normalizeName } from './services/placeService';
+import { CustomerList, customerListNear, loadCustomerList, saveCustomerList, clearCustomerList } from './services/customerListService';
+import { createCoverageTracker, cityCoverage, coverageColor, COVERED_THRESHOLD, DISTRICT_RADIUS_M } from './services/coverageService';
+import { AppSettings, loadSettings, saveSettings } from './services/settingsService';
+import { TILE_URLS } from './services/offlineMapService';
+import { WorkSession, loadSession, updateSession } from './services/sessionService';
+import { OutboxAction, OutboxRejectedError, discardRejectedActions, enqueueAction, flushOutbox, listActions } from './services/outboxService';
+import { ShiftEvent, ShiftSummary, SHIFT_STATE_LABELS, applyShiftEvent, createIdleDetector, currentShiftState, isShiftOpen, summarizeShift } from './services/shiftService';
+import { AgentState, BusinessUpdate, ServerMessage, resolveBusinessUpdate } from './services/teamProtocol';
+import { TeamClient, TeamConnection, TeamRequestError, createTeamClient } from './services/teamService';
+import { nextAvailableAt } from './services/openingHoursService';
+import { loadTerritoryPlan, saveTerritoryPlan, clearTerritoryPlan, pinPoint, territoryOf, territoryHull } from './services/territoryService';
+import { VoiceIntent, WAKE_WORD, createVoiceRecognizer, isVoiceSupported, parseVoiceCommand } from './services/voiceCommands';
+import HistoryPanel from './components/HistoryPanel';
+import ManeuverIcon from './components/ManeuverIcon';
+import SettingsPanel from './components/SettingsPanel';
+import CheckOutSheet from './components/CheckOutSheet';
+import VisitForm, { VisitDetails } from './components/VisitForm';
+import VisitTimeline from './components/VisitTimeline';
+import ImportPanel from './components/ImportPanel';
+import NoticeBanner, { Notice } from './components/NoticeBanner';
+import OfflineMapPanel from './components/OfflineMapPanel';
+import ShiftSummaryPanel from './components/ShiftSummaryPanel';
+import TeamLayer from './components/TeamLayer';
+import TeamRoster from './components/TeamRoster';
+import TerritoryPanel from './components/TerritoryPanel';
+import BusinessHoursEditor, { OpenBadge } from './components/BusinessHours';
+import DevPanel from './components/DevPanel';
+import CarMarker from './components/CarMarker';
+import ShiftReplay from './components/ShiftReplay';
 
 // Coordenadas aproximadas de Tianguá, Ceará
 const INITIAL_COORDS: Location = { lat: -3.7317, lng: -41.0004 };
 
-const searchCache = new Map<string, any>();
-const suggestionCache = new Map<string, string[]>();
+// Distância (m) da rota a partir da qual recalculamos o trajeto
+const OFF_ROUTE_THRESHOLD_M = 50;
+const REROUTE_COOLDOWN_MS = 10000;
+// Com rota estimada, tenta de novo o roteador nesse intervalo
+const ESTIMATED_RETRY_MS = 30000;
+// Distâncias (m) para anunciar a próxima manobra por voz
+const ANNOUNCE_AHEAD_M = 300;
+const ANNOUNCE_NOW_M = 40;
+// Raio (m) em torno do destino para encerrar a navegação automaticamente
+const ARRIVAL_RADIUS_M = 30;
+// Velocidade (m/s) do simulador que percorre a rota ativa, ~43 km/h
+const SIMULATED_ROUTE_SPEED_MPS = 12;
+// Quantos pontos mais próximos consultar no OSRM ao escolher a próxima parada
+const NEAREST_CANDIDATES = 20;
+// Um turno de 8 h passa em 8 min
+const REPLAY_DEFAULT_SPEED = 60;
+// Intervalo mínimo entre gravações da sessão; com uma posição por segundo, esperar a calmaria nunca gravaria
+const SESSION_SAVE_MS = 5000;
+const PROFILE_ICONS = { car: Car, motorbike: Bike, walking: Footprints };
 
 const DefaultIcon = L.icon({
   iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
@@ -51,22 +127,12 @@ const createCustomIcon = (color: string, iconHtml?: string) => L.divIcon({
   iconAnchor: [8, 8]
 });
 
-const LocationTracker: React.FC<{ onLocationUpdate: (loc: Location) => void, enabled: boolean }> = ({ onLocationUpdate, enabled }) => {
-  const map = useMap();
-  useMapEvents({
-    locationfound(e) {
-      if (enabled) onLocationUpdate({ lat: e.latlng.lat, lng: e.latlng.lng });
-    },
-  });
-  useEffect(() => {
-    if (enabled) {
-      map.locate({ watch: true, enableHighAccuracy: true });
-    } else {
-      map.stopLocate();
-    }
-  }, [map, enabled]);
-  return null;
-};
+const createNumberedIcon = (index: number, color: string) => L.divIcon({
+  html: `<div style="background-color: ${color}; width: 28px; height: 28px; border-radius: 50%; border: 3px solid white; box-shadow: 0 4px 10px rgba(0,0,0,0.3); color: white; font-size: 12px; font-weight: 900; display: flex; align-items: center; justify-content: center;">${index}</div>`,
+  className: 'custom-div-icon',
+  iconSize: [28, 28],
+  iconAnchor: [14, 14]
+});
 
 const MapController: React.FC<{ center?: Location, followUser: boolean, userLoc: Location | null }> = ({ center, followUser, userLoc }) => {
   const map = useMap();
@@ -82,6 +148,18 @@ const MapController: React.FC<{ center?: Location, followUser: boolean, userLoc:
   return null;
 };
 
+const PathBoundsFitter: React.FC<{ path: Location[] | null }> = ({ path }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (path && path.length > 1) {
+      map.fitBounds(L.latLngBounds(path.map(p => [p.lat, p.lng] as [number, number])), { padding: [60, 60], animate: true });
+    }
+  }, [path, map]);
+
+  return null;
+};
+
 type ActiveTab = 'stops' | 'districts';
 
 interface ActiveNavigation {
@@ -90,8 +168,43 @@ interface ActiveNavigation {
   time: string;
   arrivalTime: string;
   geometry: [number, number][];
+  steps: RouteStep[];
+  currentStep: number;
+  distanceToStep: number;
+  totalMeters: number;
+  totalSeconds: number;
+  /** Ponto da rota já alcançado, usado para separar o trecho percorrido. */
+  progressIndex: number;
+  progressPoint: [number, number] | null;
+  /** Linha reta até o destino porque o roteador não respondeu. */
+  estimated: boolean;
 }
 
+type NavigationTarget = ActiveNavigation['target'];
+
+const toNavigation = (target: NavigationTarget, route: StreetRoute): ActiveNavigation => ({
+  target,
+  distance: route.distance,
+  time: route.time,
+  arrivalTime: route.arrivalTime,
+  geometry: route.points,
+  steps: route.steps,
+  currentStep: route.steps.length > 1 ? 1 : 0,
+  distanceToStep: 0,
+  totalMeters: route.distanceMeters,
+  totalSeconds: route.durationSeconds,
+  progressIndex: 0,
+  progressPoint: null,
+  estimated: route.estimated,
+});
+
+const formatMeters = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters / 10) * 10} m`;
+const describeError = (error: unknown) =>
+  error instanceof SchemaError ? `resposta inválida (${error.message})` : 'falha de conexão';
+
+const formatClock = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const spokenMeters = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(1).replace('.', ',')} quilômetros` : `${Math.round(meters / 50) * 50} metros`;
+
 export default function App() {
   const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
   const [mapCenter, setMapCenter] = useState<Location | undefined>(INITIAL_COORDS);
@@ -105,7 +218,7 @@ export default function App() {
   const [citySearchQuery, setCitySearchQuery] = useState('');
   const [citySuggestions, setCitySuggestions] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [isNavigating, setIsNavigating] = useState(false);
+  const [shiftLog, setShiftLog] = useState<ShiftTransition[]>([]);
   const [activeTab, setActiveTab] = useState('stops' as ActiveTab);
   const [activeNavigation, setActiveNavigation] = useState<ActiveNavigation | null>(null);
   const [selectedPoint, setSelectedPoint] = useState<any>(null);
@@ -113,38 +226,183 @@ export default function App() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [followUser, setFollowUser] = useState(false);
+  const [shiftSummary, setShiftSummary] = useState<ShiftSummary | null>(null);
+  const [routeHistories, setRouteHistories] = useState<RouteHistory[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [selectedHistory, setSelectedHistory] = useState<RouteHistory | null>(null);
+  const [dayPlan, setDayPlan] = useState<PlannedStop[] | null>(null);
+  const [planIndex, setPlanIndex] = useState(0);
+  const [plannedDistrictIds, setPlannedDistrictIds] = useState<string[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const provider = useMemo(() => createProvider(settings), [settings.provider, settings.nominatimUrl, settings.overpassUrl]);
+  const router = useMemo(() => createRouter(settings), [settings.routingBackend, settings.routingUrl, settings.travelProfile, settings.speedFactors]);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [pendingCheckOut, setPendingCheckOut] = useState<CheckIn | null>(null);
+  const [selectedCheckIns, setSelectedCheckIns] = useState<CheckIn[]>([]);
+  const [selectedVisits, setSelectedVisits] = useState<VisitRecord[]>([]);
+  const [placesCity, setPlacesCity] = useState<string | null>(null);
+  const [customerList, setCustomerList] = useState<CustomerList | null>(null);
+  // Origem da lista em `businesses`, trocada junto com ela
+  const [businessSource, setBusinessSource] = useState<BusinessSource | undefined>(undefined);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [visitDraft, setVisitDraft] = useState<{ businessId: string; businessName: string; outcome: VisitOutcome } | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingActions, setPendingActions] = useState(0);
+  const [rejectedActions, setRejectedActions] = useState<OutboxAction[]>([]);
+  const [isOfflineOpen, setIsOfflineOpen] = useState(false);
+  const [locationSource, setLocationSource] = useState<LocationSource>(createBrowserSource);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const [isDevPanelOpen, setIsDevPanelOpen] = useState(false);
+  const [replay, setReplay] = useState<{ history: RouteHistory; source: PlaybackSource; startedAt: number | null; events: ReplayEvent[] } | null>(null);
+  const [replayPlayback, setReplayPlayback] = useState<PlaybackState | null>(null);
+  const [replayCar, setReplayCar] = useState<{ position: Location; rotation: number } | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [teamConnection, setTeamConnection] = useState<TeamConnection | null>(null);
+  const [teamAgents, setTeamAgents] = useState<AgentState[]>([]);
+  const [territoryPlan, setTerritoryPlan] = useState<TerritoryPlan | null>(null);
+  // null segue o padrão (o próprio território do agente); '' mostra todos
+  const [territoryChoice, setTerritoryChoice] = useState<string | null>(null);
+  const [isTerritoryOpen, setIsTerritoryOpen] = useState(false);
+  // Relógio dos selos de aberto/fechado, atualizado a cada minuto
+  const [clock, setClock] = useState(Date.now());
+  const shiftState = currentShiftState(shiftLog);
+  const isNavigating = isShiftOpen(shiftState);
+  const isTracking = shiftState === 'working' || shiftState === 'idle';
+  const shiftStartedAt = isNavigating ? shiftLog[0].at : null;
+  const isSupervisor = settings.teamEnabled && settings.teamRole === 'supervisor';
+  // No modo equipe só o supervisor divide a cidade; os agentes recebem a divisão
+  const canEditTerritories = !settings.teamEnabled || isSupervisor;
+  const ownTerritory = territoryPlan?.territories.find(t => normalizeName(t.agentName) === normalizeName(settings.teamMemberName));
+  const shownTerritory = territoryChoice === null
+    ? (isSupervisor ? undefined : ownTerritory)
+    : territoryPlan?.territories.find(t => t.agentName === territoryChoice);
+  const shownIds = useMemo(() => shownTerritory ? new Set(shownTerritory.pointIds) : null, [shownTerritory]);
+  const visibleBusinesses = shownIds ? businesses.filter(b => shownIds.has(b.id)) : businesses;
+  const visibleDistricts = shownIds ? districts.filter(d => shownIds.has(d.id)) : districts;
+  const selectedBusiness = selectedPoint ? businesses.find(b => b.id === selectedPoint.id) : undefined;
   
   const suggestionsRef = useRef<HTMLDivElement>(null);
+  const announcedRef = useRef<Set<string>>(new Set());
+  const rerouteRef = useRef({ inFlight: false, lastAt: 0 });
+  const replayPositionRef = useRef<Location | null>(null);
+  const sessionSaveRef = useRef<{ timer: ReturnType<typeof setTimeout> | null; lastAt: number; pending: Pick<WorkSession, 'shiftLog' | 'trackingPath'> }>({ timer: null, lastAt: 0, pending: { shiftLog: [], trackingPath: [] } });
+  const coverageRef = useRef(createCoverageTracker());
+  const customerListRef = useRef<CustomerList | null>(null);
+  const geofenceRef = useRef(createGeofenceEngine({ radiusMeters: settings.geofenceRadiusM, dwellMs: settings.geofenceDwellSec * 1000 }));
+  const sessionRestoredRef = useRef(false);
+  const trackFilterRef = useRef(createTrackFilter());
+  const lastTargetRef = useRef<NavigationTarget | null>(null);
+  const voiceRef = useRef<ReturnType<typeof createVoiceRecognizer> | null>(null);
+  const voiceIntentRef = useRef<(intent: VoiceIntent) => void>(() => {});
+  const idleRef = useRef(createIdleDetector(settings.idleAfterMin * 60000));
+  const shiftStateRef = useRef<ShiftState>('notStarted');
+  const teamRef = useRef<TeamClient | null>(null);
+  // Última alteração vencedora de cada ponto, para resolver conflitos entre agentes
+  const teamUpdatesRef = useRef(new Map<string, BusinessUpdate>());
+  const teamMessageRef = useRef<(message: ServerMessage) => void>(() => {});
+  shiftStateRef.current = shiftState;
 
   useEffect(() => {
-    fetchCityData(INITIAL_COORDS.lat, INITIAL_COORDS.lng, "Tianguá, Ceará");
+    Promise.all([loadCustomerList(), loadSession(), listActions()]).then(async ([list, session, pending]) => {
+      customerListRef.current = list;
+      setCustomerList(list);
+      // Retoma o turno interrompido por recarga ou fechamento do app
+      if (isShiftOpen(currentShiftState(session.shiftLog))) {
+        setShiftLog(session.shiftLog);
+        idleRef.current.reset(Date.now());
+        setTrackingPath(session.trackingPath);
+        speakStatus("Turno retomado.");
+      }
+      sessionRestoredRef.current = true;
+      setPendingActions(pending.length);
+      setRejectedActions(pending.filter(a => a.rejected));
+
+      const last = session.lastCity;
+      if (last) await showStoredCity(last.name, last);
+      if (navigator.onLine && pending.some(a => a.type === 'cityData' || a.type === 'search')) {
+        flushPending();
+      } else {
+        fetchCityData(last?.lat ?? INITIAL_COORDS.lat, last?.lng ?? INITIAL_COORDS.lng, last?.name ?? "Tianguá, Ceará");
+      }
+    });
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
     const handleResize = () => {
       if (window.innerWidth >= 768) setIsSidebarOpen(true);
     };
     handleResize();
     window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), 60000);
+    return () => clearInterval(timer);
   }, []);
 
+  // Guarda o turno em andamento para sobreviver a recargas e quedas do app, no máximo a cada SESSION_SAVE_MS
+  useEffect(() => {
+    if (!sessionRestoredRef.current) return;
+    const save = sessionSaveRef.current;
+    save.pending = { shiftLog: isNavigating ? shiftLog : [], trackingPath };
+    if (save.timer) return;
+    save.timer = setTimeout(() => {
+      save.timer = null;
+      save.lastAt = Date.now();
+      updateSession(save.pending);
+    }, Math.max(0, save.lastAt + SESSION_SAVE_MS - Date.now()));
+  }, [shiftLog, trackingPath]);
+
+  const queueOffline = async (type: string, payload: unknown) => {
+    await enqueueAction(type, payload, 'latest');
+    setPendingActions((await listActions()).length);
+  };
+
+  const flushPending = async () => {
+    let refreshed = false;
+    const { remaining, rejected } = await flushOutbox({
+      cityData: async ({ lat, lng, placeName }) => {
+        if (!(await fetchCityData(lat, lng, placeName))) throw new Error('falha ao carregar');
+        refreshed = true;
+      },
+      search: async ({ query }) => {
+        if (!(await performCitySearch(query))) throw new Error('falha na busca');
+        refreshed = true;
+      },
+      teamVisit: async (update: BusinessUpdate) => {
+        if (!teamRef.current) throw new Error('modo equipe desligado');
+        try {
+          await teamRef.current.send({ type: 'visit', update });
+        } catch (error) {
+          // Código errado (401) se resolve nas configurações; outro 4xx é recusa do próprio registro
+          if (error instanceof TeamRequestError && error.status >= 400 && error.status < 500 && error.status !== 401) {
+            throw new OutboxRejectedError(error.message);
+          }
+          throw error;
+        }
+      },
+    });
+    setPendingActions(remaining);
+    setRejectedActions(rejected);
+    if (refreshed) speakStatus("Conexão restabelecida. Dados atualizados.");
+  };
+
+  // Reenvia o que ficou na fila quando a conexão volta
+  useEffect(() => {
+    if (isOnline && sessionRestoredRef.current) flushPending();
+  }, [isOnline]);
+
   const fetchCitySuggestions = async (query: string) => {
-    const q = query.trim().toLowerCase();
+    const q = query.trim();
     if (q.length < 2) return;
-    if (suggestionCache.has(q)) {
-      setCitySuggestions(suggestionCache.get(q)!);
-      return;
-    }
-
     try {
-      const ai = getGeminiAI();
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `5 names of brazilian cities, districts or rural "sítios" near Tianguá/CE containing "${query}". JSON: {"s": ["Name"]}`,
-        config: { responseMimeType: "application/json" }
-      });
-      const result = JSON.parse(response.text || '{"s":[]}');
-      const suggestions = result.s || [];
-      suggestionCache.set(q, suggestions);
-      setCitySuggestions(suggestions);
+      setCitySuggestions(await provider.suggest(q));
     } catch (error) {
       console.error(error);
     }
@@ -157,137 +415,568 @@ export default function App() {
     return () => clearTimeout(timer);
   }, [citySearchQuery]);
 
-  const toggleNavigation = () => {
-    if (isNavigating) {
-      setIsNavigating(false);
-      setActiveNavigation(null);
-      setFollowUser(false);
-      speakStatus("Navegação encerrada.");
+  const dispatchShift = (event: ShiftEvent, at: number = Date.now(), trigger: ShiftTransition['trigger'] = 'manual') =>
+    setShiftLog(prev => applyShiftEvent(prev, event, at, trigger));
+
+  const startShift = (announce = true) => {
+    dispatchShift('start');
+    setTrackingPath([]); 
+    trackFilterRef.current.reset();
+    idleRef.current.reset(Date.now());
+    if (announce) speakStatus("Modo rastreamento ativado.");
+  };
+
+  // Navegar até uma parada conta como trabalho: abre o turno (com trajeto limpo) ou encerra a pausa
+  const ensureShiftWorking = () => {
+    if (!isShiftOpen(shiftState)) startShift(false);
+    else if (shiftState === 'onBreak') dispatchShift('resume');
+  };
+
+  const finishShift = async () => {
+    const log = applyShiftEvent(shiftLog, 'finish', Date.now());
+    setShiftLog(log);
+    setActiveNavigation(null);
+    setFollowUser(false);
+    speakStatus("Turno encerrado.");
+    geofenceRef.current.reset();
+    const saved = await saveShift(trackingPath, log);
+    if (saved) setRouteHistories(prev => [saved, ...prev]);
+    setShiftSummary(summarizeShift(log, trackingPath, await listAllVisits()));
+  };
+
+  const toggleBreak = () => {
+    if (shiftState === 'onBreak') {
+      dispatchShift('resume');
+      idleRef.current.reset(Date.now());
+      speakStatus("Pausa encerrada. Bom trabalho.");
     } else {
-      setIsNavigating(true);
-      setTrackingPath([]); 
-      speakStatus("Modo rastreamento ativado.");
+      dispatchShift('pause');
+      speakStatus("Pausa iniciada.");
     }
   };
 
-  const fetchCityData = async (lat: number, lng: number, placeName: string) => {
-    const cacheKey = `${lat.toFixed(4)},${lng.toFixed(4)}`;
-    if (searchCache.has(cacheKey)) {
-      applyCityData(searchCache.get(cacheKey), lat, lng, placeName);
+  const toggleNavigation = () => isNavigating ? finishShift() : startShift();
+
+  const openHistory = async () => {
+    setIsHistoryOpen(true);
+    setRouteHistories(await listShifts());
+  };
+
+  const closeHistory = () => {
+    stopReplay();
+    setIsHistoryOpen(false);
+    setSelectedHistory(null);
+  };
+
+  const selectHistory = (history: RouteHistory) => {
+    if (replay?.history.id !== history.id) stopReplay();
+    setSelectedHistory(history);
+  };
+
+  const stopReplay = () => {
+    replay?.source.stop();
+    replayPositionRef.current = null;
+    setReplay(null);
+    setReplayPlayback(null);
+    setReplayCar(null);
+  };
+
+  // Reproduz o turno sem tocar na fonte de GPS do app: as posições só movem o carro do replay
+  const startReplay = async (history: RouteHistory) => {
+    const track = history.track ?? history.path.map(location => ({ timestamp: NaN, location }));
+    let source: PlaybackSource;
+    try {
+      source = createReplaySource(track, setReplayPlayback);
+    } catch (error) {
+      setNotice({ kind: 'error', message: error instanceof Error ? error.message : 'Não foi possível reproduzir o turno.' });
       return;
     }
+    stopReplay();
+    const timed = hasTimestamps(track);
+    const events = timed
+      ? buildReplayEvents({ track, visits: await listAllVisits(), checkIns: await listAllCheckIns(), transitions: history.transitions ?? [] })
+      : [];
+    setSelectedHistory(history);
+    setIsHistoryOpen(false);
+    setFollowUser(false);
+    setReplay({ history, source, startedAt: timed ? track[0].timestamp : null, events });
+    source.setSpeed(REPLAY_DEFAULT_SPEED);
+    source.start((fix) => {
+      const previous = replayPositionRef.current;
+      replayPositionRef.current = fix.location;
+      setReplayCar(prev => ({ position: fix.location, rotation: replayHeading(previous, fix.location, prev?.rotation ?? 0) }));
+    });
+  };
 
-    setIsLoading(true);
+  const jumpToReplayEvent = (event: ReplayEvent) => {
+    if (!replay || replay.startedAt === null) return;
+    replay.source.pause();
+    replay.source.seek(event.startAt - replay.startedAt);
+    setFollowUser(false);
+    if (replayPositionRef.current) setMapCenter({ ...replayPositionRef.current });
+  };
+
+  const handleExport = async (history: RouteHistory | null, format: ExportFormat) => {
+    const track = history ? (history.track ?? history.path.map(location => ({ location }))) : trackingPath;
+    const startedAt = history ? history.startedAt : shiftStartedAt ?? trackingPath[0]?.timestamp ?? Date.now();
+    const endedAt = history?.track?.length ? history.track[history.track.length - 1].timestamp : history ? startedAt + 86400000 : Date.now();
+    const visits = (await listAllVisits()).filter(v => v.timestamp >= startedAt && v.timestamp <= endedAt);
+    const date = new Date(startedAt).toISOString().slice(0, 10);
+    downloadExport({ name: `rotas-bets-${date}`, track, visits, businesses }, format);
+  };
+
+  const handleImportTrack = async (file: File) => {
     try {
-      const ai = getGeminiAI();
-      const prompt = `Location data [${lat}, ${lng}] (${placeName}). JSON: { "cityName": "X", "cityPopulation": "X habitantes", "bars": [{"name": "X", "lat": v, "lng": v, "address": "X"}], "districts": [{"name": "X", "lat": v, "lng": v, "description": "X", "population": "X habitantes"}] } Include local "sítios" and rural communities.`;
-      
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
+      const track = parseTrackFile(await file.text(), file.name);
+      const timed = track.filter(tp => Number.isFinite(tp.timestamp));
+      const start = timed[0]?.timestamp ?? Date.now();
+      const end = timed[timed.length - 1]?.timestamp ?? start;
+      const path = track.map(tp => tp.location);
+      setSelectedHistory({
+        id: `import:${file.name}`,
+        startedAt: start,
+        date: new Date(start).toLocaleDateString('pt-BR'),
+        startTime: formatClock(start),
+        endTime: formatClock(end),
+        distanceKm: Number(pathDistanceKm(path).toFixed(2)),
+        path,
+        track,
       });
-      
-      const result = JSON.parse(response.text || '{"bars":[], "districts": []}');
-      searchCache.set(cacheKey, result);
-      applyCityData(result, lat, lng, placeName);
+      speakStatus("Trilha carregada.");
     } catch (error) {
       console.error(error);
+      speakStatus("Não foi possível ler a trilha.");
+    }
+  };
+
+  const handleDeleteHistory = async (id: string) => {
+    await deleteShift(id);
+    setRouteHistories(prev => prev.filter(h => h.id !== id));
+    if (selectedHistory?.id === id) setSelectedHistory(null);
+    if (replay?.history.id === id) stopReplay();
+  };
+
+  const fetchCityData = async (lat: number, lng: number, placeName: string): Promise<boolean> => {
+    setIsLoading(true);
+    try {
+      const result = await fetchCityDataFrom(provider, { lat, lng }, placeName);
+      if (result.bars.length === 0 && result.districts.length === 0 && result.rejected.length > 0) {
+        throw new SchemaError('$', 'nenhum local válido na resposta');
+      }
+      await applyCityData(result, lat, lng, placeName);
+      if (result.rejected.length > 0) {
+        setNotice({ kind: 'warning', message: `${result.rejected.length} locais descartados por dados inválidos.`, details: result.rejected });
+      }
+      return true;
+    } catch (error) {
+      console.error(error);
+      if (!navigator.onLine) {
+        queueOffline('cityData', { lat, lng, placeName });
+        setNotice({ kind: 'warning', message: `Sem conexão: ${placeName} será carregado quando o sinal voltar.` });
+      } else {
+        setNotice({ kind: 'error', message: `Não foi possível carregar ${placeName}: ${describeError(error)}` });
+      }
+      return false;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const applyCityData = (result: any, lat: number, lng: number, placeName: string) => {
-    setCityName(result.cityName || placeName);
+  // Mostra o que ficou salvo da cidade, para abrir o app sem sinal
+  const showStoredCity = async (city: string, center: Location) => {
+    const stored = await loadCityPlaces(city);
+    if (!stored) return;
+    setCityName(city);
+    setBusinesses(stored.businesses);
+    setBusinessSource(stored.businessSource);
+    setDistricts(stored.districts);
+    setPlacesCity(city);
+    setMapCenter(center);
+  };
+
+  const applyCityData = async (result: CityData, lat: number, lng: number, placeName: string) => {
+    const city = result.cityName || placeName;
+    setCityName(city);
     setCityPopulation(result.cityPopulation || 'População sob consulta');
-    setBusinesses(result.bars.map((b: any) => ({ ...b, id: Math.random().toString(36).substr(2, 9), status: 'pending' })));
-    setDistricts(result.districts.map((d: any) => ({ ...d, id: Math.random().toString(36).substr(2, 9), covered: false })));
+    // Uma lista importada pela empresa tem prioridade sobre os bares sugeridos pela IA, na área que ela cobre
+    const imported = customerListNear(customerListRef.current, { lat, lng });
+    const incomingBusinesses: BusinessPoint[] = imported
+      ? imported
+      : result.bars.map(b => ({ ...b, type: 'bar' as const, id: stablePlaceId('bar', b.name, b), status: 'pending' as const }));
+    const incomingDistricts: District[] = result.districts.map(d => ({ ...d, id: stablePlaceId('district', d.name, d), covered: false }));
+    // Mantém o trabalho já registrado na cidade ao buscar de novo
+    const stored = await loadCityPlaces(city);
+    const source: BusinessSource = imported ? 'import' : 'ai';
+    setBusinesses(refreshBusinesses(stored?.businesses ?? [], stored?.businessSource, incomingBusinesses, source));
+    setBusinessSource(source);
+    setDistricts(mergeDistricts(stored?.districts ?? [], incomingDistricts));
+    setPlacesCity(city);
+    updateSession({ lastCity: { name: city, lat, lng } });
     setSelectedPoint({ name: result.cityName || placeName, lat, lng, population: result.cityPopulation, type: 'city' });
-    speakStatus(`${result.cityName}. ${result.cityPopulation}.`);
-  };
-
-  const handleLocationUpdate = useCallback((loc: Location) => {
-    if (currentLocation) {
-        const dy = loc.lat - currentLocation.lat;
-        const dx = loc.lng - currentLocation.lng;
-        if (Math.abs(dy) > 0.000005 || Math.abs(dx) > 0.000005) {
-          const angle = Math.atan2(dx, dy) * (180 / Math.PI);
-          setCarRotation(angle);
-          
-          setTrackingPath(prev => {
-            const last = prev[prev.length - 1];
-            if (!last || Math.abs(last.location.lat - loc.lat) > 0.00005 || Math.abs(last.location.lng - loc.lng) > 0.00005) {
-              return [...prev, { timestamp: Date.now(), location: loc }];
-            }
-            return prev;
-          });
-        }
+    speakStatus(`${city}. ${result.cityPopulation || ''}.`);
+  };
+
+  const handleLocationUpdate = useCallback((fix: GpsFix) => {
+    const result = trackFilterRef.current.process(fix);
+    if (!result.accepted) return;
+    if (result.heading !== null) setCarRotation(result.heading);
+    // Fora do turno ou na pausa a posição continua no mapa, mas não entra no trajeto do turno
+    const shiftOpen = shiftStateRef.current === 'working' || shiftStateRef.current === 'idle';
+    if (result.isTrackPoint && shiftOpen) {
+      setTrackingPath(prev => [...prev, { timestamp: fix.timestamp, location: result.position }]);
+      teamRef.current?.send({ type: 'position', point: { timestamp: fix.timestamp, location: result.position }, heading: result.heading });
+    }
+    const moved = idleRef.current.update(result.position, Date.now());
+    if (moved) setShiftLog(prev => applyShiftEvent(prev, 'move', moved.at, 'auto'));
+    setCurrentLocation(result.position);
+  }, []);
+
+  // Detecção de parada: sem deslocamento por alguns minutos, o tempo passa a contar como parado
+  useEffect(() => {
+    if (shiftState !== 'working') return;
+    const timer = setInterval(() => {
+      const idle = idleRef.current.check(Date.now());
+      if (!idle) return;
+      dispatchShift('idle', idle.at, 'auto');
+      speakStatus("Parada detectada. Tempo parado sendo registrado.");
+    }, 30000);
+    return () => clearInterval(timer);
+  }, [shiftState]);
+
+  // Uma única fonte de posição por vez: GPS do aparelho ou uma simulação
+  useEffect(() => {
+    locationSource.start(handleLocationUpdate);
+    return () => locationSource.stop();
+  }, [locationSource]);
+
+  const switchLocationSource = (source: LocationSource) => {
+    trackFilterRef.current.reset();
+    setPlayback(isPlaybackSource(source) ? source.getState() : null);
+    setLocationSource(source);
+  };
+
+  const replayTrackFile = async (file: File) => {
+    try {
+      switchLocationSource(createReplaySource(parseTrackFile(await file.text(), file.name), setPlayback));
+    } catch (error) {
+      console.error(error);
+      setNotice({ kind: 'error', message: error instanceof Error ? error.message : 'Não foi possível ler a trilha.' });
+    }
+  };
+
+  const simulateActiveRoute = () => {
+    if (!activeNavigation) return;
+    const line = activeNavigation.geometry.map(([lat, lng]) => ({ lat, lng }));
+    switchLocationSource(createRouteSimulator(line, SIMULATED_ROUTE_SPEED_MPS, setPlayback));
+  };
+
+  // Sem `quiet`, avisa por voz; a nova tentativa de uma rota estimada é silenciosa e só troca se vier rota de verdade
+  const rerouteFrom = async (loc: Location, target: NavigationTarget, quiet = false) => {
+    const reroute = rerouteRef.current;
+    const cooldown = quiet ? ESTIMATED_RETRY_MS : REROUTE_COOLDOWN_MS;
+    if (reroute.inFlight || Date.now() - reroute.lastAt < cooldown) return;
+    reroute.inFlight = true;
+    reroute.lastAt = Date.now();
+    if (!quiet) speakStatus("Recalculando rota.", 'navigation');
+    const streetRoute = await router.route(loc, { lat: target.lat, lng: target.lng });
+    reroute.inFlight = false;
+    if (quiet && streetRoute.estimated) return;
+    announcedRef.current.clear();
+    setActiveNavigation(prev => prev && prev.target === target ? toNavigation(target, streetRoute) : prev);
+  };
+
+  const finishNavigation = (target: NavigationTarget) => {
+    lastTargetRef.current = target;
+    setActiveNavigation(null);
+    setFollowUser(false);
+    speakStatus(`Você chegou a ${target.name}.`, 'navigation');
+  };
+
+  // Acompanha o progresso na rota, a manobra seguinte e a saída da rota a cada nova posição
+  useEffect(() => {
+    if (!activeNavigation || !currentLocation) return;
+    const { target } = activeNavigation;
+    if (haversineDistance(currentLocation, target) <= ARRIVAL_RADIUS_M) {
+      finishNavigation(target);
+      return;
+    }
+
+    const line = activeNavigation.geometry.map(([lat, lng]) => ({ lat, lng }));
+    const projection = projectOntoPolyline(currentLocation, line);
+
+    // A linha reta não segue as ruas, então sair dela não é sair da rota
+    if (activeNavigation.estimated) {
+      rerouteFrom(currentLocation, target, true);
+    } else if (projection.distance > OFF_ROUTE_THRESHOLD_M) {
+      rerouteFrom(currentLocation, target);
+      return;
+    }
+
+    const remainingMeters = distanceAlongPolyline(line, projection, line.length - 1);
+    if (remainingMeters <= ARRIVAL_RADIUS_M) {
+      finishNavigation(target);
+      return;
+    }
+    const remainingSeconds = activeNavigation.totalMeters > 0
+      ? activeNavigation.totalSeconds * (remainingMeters / activeNavigation.totalMeters)
+      : 0;
+
+    const stepIndex = activeNavigation.steps.findIndex(s => s.geometryIndex > projection.segmentIndex);
+    const step = activeNavigation.steps[stepIndex];
+    const distanceToStep = step ? Math.round(distanceAlongPolyline(line, projection, step.geometryIndex) / 10) * 10 : 0;
+
+    setActiveNavigation(prev => prev && {
+      ...prev,
+      currentStep: stepIndex === -1 ? prev.currentStep : stepIndex,
+      distanceToStep,
+      distance: (remainingMeters / 1000).toFixed(1) + ' km',
+      time: formatDuration(remainingSeconds),
+      arrivalTime: formatArrivalTime(remainingSeconds),
+      progressIndex: projection.segmentIndex,
+      progressPoint: [projection.point.lat, projection.point.lng],
+    });
+
+    if (!step) return;
+    const announced = announcedRef.current;
+    if (distanceToStep <= ANNOUNCE_NOW_M && step.type !== 'arrive' && !announced.has(`${stepIndex}:now`)) {
+      announced.add(`${stepIndex}:now`);
+      announced.add(`${stepIndex}:ahead`);
+      speakStatus(`${step.instruction}.`, 'navigation');
+    } else if (distanceToStep <= ANNOUNCE_AHEAD_M && distanceToStep > ANNOUNCE_NOW_M * 2 && !announced.has(`${stepIndex}:ahead`)) {
+      announced.add(`${stepIndex}:ahead`);
+      speakStatus(`Em ${spokenMeters(distanceToStep)}, ${step.instruction.charAt(0).toLowerCase()}${step.instruction.slice(1)}.`, 'navigation');
     }
-    setCurrentLocation(loc);
   }, [currentLocation]);
 
-  const handleStatusUpdate = async (id: string, status: 'success' | 'failure') => {
+  const handleStatusUpdate = async (id: string, status: VisitOutcome, details: VisitDetails = {}) => {
+    const business = businesses.find(b => b.id === id);
     setBusinesses(prev => prev.map(b => b.id === id ? { ...b, status } : b));
-    speakStatus(status === 'success' ? "Confirmado." : "Erro.");
+    if (business) publishTeamVisit(business, status);
+    speakStatus(status === 'success' ? `Confirmado${business ? ` em ${business.name}` : ''}.` : `Falha registrada${business ? ` em ${business.name}` : ''}.`);
+    if (!business) return;
+
+    const visit: VisitRecord = {
+      id: Math.random().toString(36).substr(2, 9),
+      businessId: id,
+      businessName: business.name,
+      outcome: status,
+      ...details,
+      timestamp: Date.now(),
+      position: currentLocation,
+    };
+    await saveVisit(visit);
+    if (selectedPoint?.id === id) setSelectedVisits(prev => [visit, ...prev]);
   };
 
-  const performCitySearch = async (forcedQuery?: string) => {
-    const query = (forcedQuery || citySearchQuery).trim();
-    if (!query) return;
-    
-    const cacheKey = `geo:${query.toLowerCase()}`;
-    if (searchCache.has(cacheKey)) {
-      const geo = searchCache.get(cacheKey);
-      setMapCenter(geo);
-      fetchCityData(geo.lat, geo.lng, query);
-      setShowSuggestions(false);
+  const publishTeamVisit = async (business: BusinessPoint, status: VisitOutcome) => {
+    if (!settings.teamEnabled) return;
+    const update: BusinessUpdate = {
+      businessId: business.id,
+      businessName: business.name,
+      status,
+      agentId: settings.teamMemberId,
+      agentName: settings.teamMemberName.trim(),
+      at: Date.now(),
+    };
+    teamUpdatesRef.current.set(update.businessId, update);
+    // Passa pela fila offline: se o servidor não responder, reenvia quando puder
+    await enqueueAction('teamVisit', update, update.businessId);
+    flushPending();
+  };
+
+  const applyTeamUpdate = (update: BusinessUpdate) => {
+    const known = teamUpdatesRef.current.get(update.businessId);
+    if (resolveBusinessUpdate(known, update) !== update || known === update) return;
+    teamUpdatesRef.current.set(update.businessId, update);
+    if (update.agentId === settings.teamMemberId) return;
+    setBusinesses(prev => prev.map(b => b.id === update.businessId ? { ...b, status: update.status } : b));
+    if (known?.agentId === settings.teamMemberId && known.status !== update.status) {
+      setNotice({ kind: 'warning', message: `${update.businessName}: ${update.agentName} registrou ${update.status === 'success' ? 'sucesso' : update.status === 'failure' ? 'falha' : 'pendente'} depois de você.` });
+    }
+  };
+
+  // Um plano sem territórios é a divisão removida pelo supervisor
+  const receiveTerritoryPlan = (plan: TerritoryPlan) => {
+    if (plan.territories.length === 0) clearTerritoryPlan(plan.id);
+    else saveTerritoryPlan(plan);
+    if (!placesCity || normalizeName(placesCity) !== plan.id) return;
+    setTerritoryPlan(prev => prev && prev.updatedAt > plan.updatedAt ? prev : plan.territories.length ? plan : null);
+  };
+
+  const handleTeamMessage = (message: ServerMessage) => {
+    if (message.type === 'snapshot') {
+      setTeamAgents(message.agents);
+      message.businesses.forEach(applyTeamUpdate);
+      message.territories.forEach(receiveTerritoryPlan);
+    } else if (message.type === 'agent') {
+      setTeamAgents(prev => [...prev.filter(a => a.id !== message.agent.id), message.agent]);
+    } else if (message.type === 'territories') {
+      receiveTerritoryPlan(message.plan);
+    } else {
+      applyTeamUpdate(message.update);
+    }
+  };
+  teamMessageRef.current = handleTeamMessage;
+
+  // Modo equipe: um cliente por configuração, trocado quando servidor, nome ou papel mudam
+  useEffect(() => {
+    if (!settings.teamEnabled || !settings.teamMemberName.trim() || !settings.teamToken) {
+      setTeamConnection(null);
+      setTeamAgents([]);
+      return;
+    }
+    const client = createTeamClient({
+      serverUrl: settings.teamServerUrl,
+      member: { id: settings.teamMemberId, name: settings.teamMemberName.trim() },
+      role: settings.teamRole,
+      token: settings.teamToken,
+      onMessage: (message) => teamMessageRef.current(message),
+      onConnectionChange: setTeamConnection,
+    });
+    teamRef.current = client;
+    client.start();
+    return () => {
+      client.stop();
+      if (teamRef.current === client) teamRef.current = null;
+    };
+  }, [settings.teamEnabled, settings.teamServerUrl, settings.teamRole, settings.teamMemberName, settings.teamMemberId, settings.teamToken]);
+
+  // Ao (re)conectar, o servidor fica sabendo do estado do turno e recebe os resultados pendentes
+  useEffect(() => {
+    if (!teamRef.current || (teamConnection !== 'websocket' && teamConnection !== 'polling')) return;
+    if (settings.teamRole === 'agent') {
+      teamRef.current.send({ type: 'shift', state: shiftState, at: shiftLog[shiftLog.length - 1]?.at ?? Date.now() });
+    }
+  }, [shiftState, teamConnection]);
+
+  useEffect(() => {
+    if (teamConnection === 'websocket' || teamConnection === 'polling') flushPending();
+  }, [teamConnection]);
+
+  const openVisitForm = (business: BusinessPoint, outcome: VisitOutcome) => {
+    setVisitDraft({ businessId: business.id, businessName: business.name, outcome });
+  };
+
+  const submitVisit = (outcome: VisitOutcome, details: VisitDetails) => {
+    if (!visitDraft) return;
+    handleStatusUpdate(visitDraft.businessId, outcome, details);
+    setVisitDraft(null);
+  };
+
+  useEffect(() => {
+    geofenceRef.current.configure({ radiusMeters: settings.geofenceRadiusM, dwellMs: settings.geofenceDwellSec * 1000 });
+    idleRef.current.configure(settings.idleAfterMin * 60000);
+    speechManager.configure({ muted: settings.speechMuted, volume: settings.speechVolume, engine: settings.speechEngine, voice: settings.speechVoice });
+    saveSettings(settings);
+  }, [settings]);
+
+  // Check-in automático: registra chegada e saída em cada ponto durante o turno
+  useEffect(() => {
+    if (!isTracking || !currentLocation) return;
+    geofenceRef.current.update(currentLocation, businesses, Date.now()).forEach((event) => {
+      if (event.type === 'arrival') {
+        saveCheckIn({ id: `${event.business.id}:${event.at}`, businessId: event.business.id, businessName: event.business.name, arrivedAt: event.at });
+        speakStatus(`Chegada registrada em ${event.business.name}.`, 'alert');
+        return;
+      }
+      const checkIn: CheckIn = {
+        id: `${event.business.id}:${event.arrivedAt}`,
+        businessId: event.business.id,
+        businessName: event.business.name,
+        arrivedAt: event.arrivedAt,
+        departedAt: event.at,
+      };
+      saveCheckIn(checkIn);
+      if (businesses.find(b => b.id === event.business.id)?.status === 'pending') {
+        setPendingCheckOut(checkIn);
+        speakStatus(`Saindo de ${event.business.name}. Como foi a visita?`, 'alert');
+      }
+    });
+  }, [currentLocation]);
+
+  // Cobertura dos distritos a partir do rastro percorrido
+  useEffect(() => {
+    if (districts.length === 0) return;
+    const coverage = coverageRef.current.update(districts, trackingPath.map(tp => tp.location));
+    if (districts.some(d => d.coverage !== coverage.get(d.id))) {
+      setDistricts(prev => prev.map(d => {
+        const value = coverage.get(d.id) ?? d.coverage ?? 0;
+        return { ...d, coverage: value, covered: value >= COVERED_THRESHOLD };
+      }));
+    }
+  }, [trackingPath, districts]);
+
+  // Persiste pontos e distritos da cidade (com status e cobertura) entre recarregamentos
+  useEffect(() => {
+    if (!placesCity) return;
+    const timer = setTimeout(() => saveCityPlaces(placesCity, businesses, businessSource, districts), 500);
+    return () => clearTimeout(timer);
+  }, [placesCity, businesses, businessSource, districts]);
+
+  useEffect(() => {
+    setTerritoryPlan(null);
+    setTerritoryChoice(null);
+    if (placesCity) loadTerritoryPlan(placesCity).then(setTerritoryPlan);
+  }, [placesCity]);
+
+  const updateTerritoryPlan = (plan: TerritoryPlan) => {
+    setTerritoryPlan(plan.territories.length ? plan : null);
+    if (plan.territories.length) saveTerritoryPlan(plan);
+    else clearTerritoryPlan(plan.id);
+    if (isSupervisor) teamRef.current?.send({ type: 'territories', plan });
+  };
+
+  const territoryShapes = useMemo(() => {
+    if (!territoryPlan) return [];
+    const byId = new Map<string, Location>([...businesses, ...districts].map(p => [p.id, { lat: p.lat, lng: p.lng }]));
+    return territoryPlan.territories.map(t => ({
+      territory: t,
+      hull: territoryHull(t.pointIds.map(id => byId.get(id)).filter((p): p is Location => !!p)),
+    }));
+  }, [territoryPlan, businesses, districts]);
+
+  const handleCheckOutOutcome = (outcome: VisitOutcome) => {
+    if (!pendingCheckOut) return;
+    setVisitDraft({ businessId: pendingCheckOut.businessId, businessName: pendingCheckOut.businessName, outcome });
+    saveCheckIn({ ...pendingCheckOut, outcome });
+    setPendingCheckOut(null);
+  };
+
+  useEffect(() => {
+    if (!selectedPoint?.id || !businesses.some(b => b.id === selectedPoint.id)) {
+      setSelectedCheckIns([]);
+      setSelectedVisits([]);
       return;
     }
+    listCheckIns(selectedPoint.id).then(setSelectedCheckIns);
+    listVisits(selectedPoint.id).then(setSelectedVisits);
+  }, [selectedPoint?.id, pendingCheckOut]);
+
+  const performCitySearch = async (forcedQuery?: string): Promise<boolean> => {
+    const query = (forcedQuery || citySearchQuery).trim();
+    if (!query) return true;
 
     setIsLoading(true);
     setShowSuggestions(false);
     try {
-      const ai = getGeminiAI();
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Coords of ${query} in Ceará. JSON: {"lat": v, "lng": v}`,
-        config: { responseMimeType: "application/json" }
-      });
-      const geo = JSON.parse(response.text || '{}');
-      if (geo.lat && geo.lng) {
-        searchCache.set(cacheKey, geo);
-        setMapCenter(geo);
-        fetchCityData(geo.lat, geo.lng, query);
-      }
+      const geo = assertInServiceArea(await provider.geocode(query));
+      setMapCenter(geo);
+      fetchCityData(geo.lat, geo.lng, query);
+      return true;
     } catch (error) {
       console.error(error);
+      if (!navigator.onLine) {
+        queueOffline('search', { query });
+        setNotice({ kind: 'warning', message: `Sem conexão: a busca por "${query}" será feita quando o sinal voltar.` });
+      } else {
+        setNotice({ kind: 'error', message: `Não foi possível localizar "${query}": ${describeError(error)}` });
+      }
+      return false;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const fetchStreetRoute = async (start: Location, end: Location) => {
-    try {
-      const response = await fetch(`https://router.project-osrm.org/route/v1/driving/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson`);
-      const data = await response.json();
-      if (data.routes?.[0]) {
-        const route = data.routes[0];
-        const durationSeconds = route.duration;
-        const arrivalDate = new Date(Date.now() + durationSeconds * 1000);
-        const arrivalTimeStr = arrivalDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-
-        return {
-          points: route.geometry.coordinates.map((coord: [number, number]) => [coord[1], coord[0]]),
-          distance: (route.distance / 1000).toFixed(1) + ' km',
-          time: Math.round(route.duration / 60) + ' min',
-          arrivalTime: arrivalTimeStr
-        };
-      }
-    } catch (e) { console.error(e); }
-    return null;
-  };
-
   const goToLocation = async (item: any) => {
     if (window.innerWidth < 768) setIsSidebarOpen(false);
     setSelectedPoint(null);
@@ -296,23 +985,224 @@ export default function App() {
         return;
     }
     setIsLoading(true);
-    const streetRoute = await fetchStreetRoute(currentLocation, { lat: item.lat, lng: item.lng });
-    if (streetRoute) {
-      setActiveNavigation({ 
-        target: { name: item.name, id: item.id, population: item.population, type: item.type, description: item.description, lat: item.lat, lng: item.lng }, 
-        distance: streetRoute.distance, 
-        time: streetRoute.time, 
-        arrivalTime: streetRoute.arrivalTime,
-        geometry: streetRoute.points as [number, number][] 
+    const streetRoute = await router.route(currentLocation, { lat: item.lat, lng: item.lng });
+    rerouteRef.current.lastAt = Date.now();
+    announcedRef.current.clear();
+    setActiveNavigation(toNavigation(
+      { name: item.name, id: item.id, population: item.population, type: item.type, description: item.description, lat: item.lat, lng: item.lng },
+      streetRoute
+    ));
+    setMapCenter({ lat: item.lat, lng: item.lng });
+    ensureShiftWorking();
+    setFollowUser(true);
+    speakStatus(`Iniciando navegação para ${item.name}.`);
+    if (streetRoute.estimated) {
+      setNotice({
+        kind: 'warning',
+        message: navigator.onLine
+          ? 'Servidor de rotas indisponível: seguindo estimativa em linha reta.'
+          : 'Sem conexão: seguindo estimativa em linha reta. O mapa salvo continua disponível.',
       });
-      setMapCenter({ lat: item.lat, lng: item.lng });
-      setIsNavigating(true);
-      setFollowUser(true);
-      speakStatus(`Iniciando navegação para ${item.name}.`);
     }
     setIsLoading(false);
   };
 
+  const planMyDay = async () => {
+    const stops: PlannedStop[] = [
+      ...visibleBusinesses.filter(b => b.status === 'pending' && !b.missing).map(b => ({ id: b.id, name: b.name, lat: b.lat, lng: b.lng, kind: 'business' as const })),
+      ...visibleDistricts.filter(d => plannedDistrictIds.includes(d.id)).map(d => ({ id: d.id, name: d.name, lat: d.lat, lng: d.lng, kind: 'district' as const })),
+    ];
+    if (stops.length === 0) {
+      speakStatus("Nenhuma parada pendente.");
+      return;
+    }
+
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+    setIsLoading(true);
+    const plan = await planRoute(router, currentLocation ?? mapCenter ?? INITIAL_COORDS, stops, { availableAt: stopAvailableAt });
+    setIsLoading(false);
+    if (plan.skipped.length > 0) {
+      setNotice({ kind: 'warning', message: `${plan.skipped.length} paradas fechadas pelo resto do dia ficaram fora do plano.`, details: plan.skipped.map(s => s.name) });
+    }
+    if (plan.stops.length === 0) {
+      speakStatus("Nenhuma parada abre ainda hoje.");
+      return;
+    }
+    setDayPlan(plan.stops);
+    setPlanIndex(0);
+    setSelectedPoint(null);
+    speakStatus(`Rota planejada com ${plan.stops.length} paradas.`);
+  };
+
+  const stopAvailableAt = (stop: PlannedStop, at: number) => {
+    const business = stop.kind === 'business' ? businesses.find(b => b.id === stop.id) : undefined;
+    return business ? nextAvailableAt(business, at) : at;
+  };
+
+  // Primeira parada, na ordem dada, aberta na chegada prevista; se nenhuma, a que abre antes
+  const pickOpenOnArrival = async <T extends Location>(candidates: T[], availableAt: AvailabilityFn<T>, byTravelTime = false) => {
+    setIsLoading(true);
+    const times = await fetchTravelTimes(router, currentLocation ?? mapCenter ?? INITIAL_COORDS, candidates);
+    setIsLoading(false);
+    const order = candidates.map((_, i) => i);
+    if (byTravelTime) order.sort((a, b) => times[a] - times[b]);
+    const pick = pickReachableStop(order.map(i => candidates[i]), order.map(i => times[i]), Date.now(), availableAt);
+    if (!pick) return null;
+    const first = candidates[order[0]] as T & { name: string };
+    const chosen = candidates[order[pick.index]] as T & { name: string };
+    if (pick.index > 0) speakStatus(`${first.name} estará fechado na chegada. Fica para depois.`, 'alert');
+    if (pick.waitSeconds > 60) speakStatus(`${chosen.name} abre às ${formatClock(pick.startAt)}.`, 'alert');
+    return chosen;
+  };
+
+  const togglePlannedDistrict = (id: string) => {
+    setPlannedDistrictIds(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+  };
+
+  const isStopDone = (stop: PlannedStop) =>
+    stop.kind === 'business' && businesses.find(b => b.id === stop.id)?.status !== 'pending';
+
+  const nextPlanIndex = dayPlan ? dayPlan.findIndex((stop, i) => i >= planIndex && !isStopDone(stop)) : -1;
+
+  const goToNextPlannedStop = async () => {
+    if (!dayPlan) return;
+    if (nextPlanIndex === -1) {
+      setDayPlan(null);
+      speakStatus("Todas as paradas do dia foram concluídas.");
+      return;
+    }
+    const pending = dayPlan.slice(nextPlanIndex).filter(stop => !isStopDone(stop));
+    const chosen = await pickOpenOnArrival(pending, stopAvailableAt);
+    if (!chosen) {
+      speakStatus("Nenhuma parada do plano abre ainda hoje.", 'alert');
+      return;
+    }
+    // A parada escolhida assume a vez; as que estavam fechadas seguem no plano logo depois
+    setDayPlan([...dayPlan.slice(0, nextPlanIndex), chosen, ...dayPlan.slice(nextPlanIndex).filter(stop => stop !== chosen)]);
+    setPlanIndex(nextPlanIndex + 1);
+    goToLocation(chosen);
+  };
+
+  // Parada atual para os comandos de voz: check-out aberto, rota ativa ou o último destino alcançado
+  const currentTargetBusiness = () => {
+    const id = pendingCheckOut?.businessId ?? activeNavigation?.target.id ?? lastTargetRef.current?.id ?? selectedPoint?.id;
+    return businesses.find(b => b.id === id);
+  };
+
+  const goToNearestPending = async () => {
+    if (dayPlan) {
+      goToNextPlannedStop();
+      return;
+    }
+    const from = currentLocation ?? mapCenter ?? INITIAL_COORDS;
+    const pending = visibleBusinesses.filter(b => b.status === 'pending' && !b.missing);
+    if (pending.length === 0) {
+      speakStatus("Nenhuma parada pendente.");
+      return;
+    }
+    const nearest = [...pending].sort((a, b) => haversineDistance(from, a) - haversineDistance(from, b)).slice(0, NEAREST_CANDIDATES);
+    const chosen = await pickOpenOnArrival(nearest, nextAvailableAt, true);
+    if (chosen) goToLocation(chosen);
+    else speakStatus("Nenhuma parada próxima abre ainda hoje.", 'alert');
+  };
+
+  const recordVoiceOutcome = (outcome: VisitOutcome) => {
+    const business = currentTargetBusiness();
+    if (!business) {
+      speakStatus("Nenhuma parada selecionada.", 'alert');
+      return;
+    }
+    if (pendingCheckOut?.businessId === business.id) {
+      saveCheckIn({ ...pendingCheckOut, outcome });
+      setPendingCheckOut(null);
+    }
+    handleStatusUpdate(business.id, outcome);
+  };
+
+  const describeWhereAmI = () => {
+    if (!cityName) return "Localização ainda não identificada.";
+    const here = currentLocation ?? mapCenter;
+    const near = here && districts.find(d => haversineDistance(here, d) <= DISTRICT_RADIUS_M);
+    return `Você está em ${near ? `${near.name}, ` : ''}${cityName}. ${cityPopulation}.`;
+  };
+
+  const handleVoiceIntent = (intent: VoiceIntent) => {
+    switch (intent) {
+      case 'nextStop':
+        goToNearestPending();
+        break;
+      case 'confirm':
+        recordVoiceOutcome('success');
+        break;
+      case 'fail':
+        recordVoiceOutcome('failure');
+        break;
+      case 'stopTracking':
+        if (isNavigating) finishShift();
+        else speakStatus("O rastreio já está parado.", 'alert');
+        break;
+      case 'whereAmI':
+        speakStatus(describeWhereAmI(), 'alert');
+        break;
+    }
+  };
+  voiceIntentRef.current = handleVoiceIntent;
+
+  // Reconhecedor de voz: aperta-e-fala, ou escuta contínua esperando a palavra de ativação
+  useEffect(() => {
+    if (!isVoiceSupported()) return;
+    const handsFree = settings.voiceHandsFree;
+    const recognizer = createVoiceRecognizer({
+      continuous: handsFree,
+      onTranscript: (alternatives) => {
+        const intent = alternatives.map(t => parseVoiceCommand(t, handsFree ? WAKE_WORD : undefined)).find(Boolean);
+        if (intent) voiceIntentRef.current(intent);
+        else if (!handsFree) speakStatus("Comando não reconhecido.", 'alert');
+      },
+      onListeningChange: setIsListening,
+    });
+    voiceRef.current = recognizer;
+    if (handsFree) recognizer.start();
+    return () => recognizer.stop();
+  }, [settings.voiceHandsFree]);
+
+  const toggleListening = () => {
+    const recognizer = voiceRef.current;
+    if (!recognizer) {
+      setNotice({ kind: 'warning', message: 'Este navegador não oferece reconhecimento de voz.' });
+      return;
+    }
+    if (recognizer.isListening()) recognizer.stop();
+    else recognizer.start();
+  };
+
+  const handleImport = async (imported: BusinessPoint[], source: string) => {
+    const list = await saveCustomerList(source, imported);
+    customerListRef.current = list;
+    setCustomerList(list);
+    setDayPlan(null);
+    setIsImportOpen(false);
+    const center = mapCenter ?? INITIAL_COORDS;
+    const near = customerListNear(list, center);
+    if (!near) {
+      setNotice({ kind: 'warning', message: 'Lista importada fora da área atual: ela será usada ao buscar a cidade dos pontos.' });
+      return;
+    }
+    setBusinesses(prev => refreshBusinesses(prev, businessSource, near, 'import'));
+    setBusinessSource('import');
+    speakStatus(`${near.length} pontos importados.`);
+  };
+
+  const handleClearImport = async () => {
+    await clearCustomerList();
+    customerListRef.current = null;
+    setCustomerList(null);
+    setDayPlan(null);
+    setIsImportOpen(false);
+    const center = mapCenter ?? INITIAL_COORDS;
+    fetchCityData(center.lat, center.lng, cityName || "Tianguá, Ceará");
+  };
+
   const detectRealLocation = () => {
     if (!navigator.geolocation) return;
     setIsDetecting(true);
@@ -362,9 +1252,21 @@ export default function App() {
             </div>
 
             <div className="flex items-center gap-1 pr-1">
+              <button onClick={() => setIsOfflineOpen(true)} className={`relative p-3 rounded-full transition-colors ${isOnline ? 'text-green-500 hover:bg-green-50' : 'text-amber-500 bg-amber-50'}`}>
+                {isOnline ? <Wifi className="w-6 h-6" /> : <WifiOff className="w-6 h-6" />}
+                {pendingActions > 0 && (
+                  <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-black flex items-center justify-center">{pendingActions}</span>
+                )}
+              </button>
+              <button onClick={() => setSettings(prev => ({ ...prev, speechMuted: !prev.speechMuted }))} className={`p-3 rounded-full transition-colors ${settings.speechMuted ? 'text-slate-400 bg-slate-100' : 'text-blue-500 hover:bg-blue-50'}`}>
+                {settings.speechMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
+              </button>
               <button onClick={() => setIsDarkMode(!isDarkMode)} className="p-3 text-blue-500 hover:bg-blue-50 rounded-full transition-colors">
                 {isDarkMode ? <Sun className="w-6 h-6" /> : <Moon className="w-6 h-6" />}
               </button>
+              <button onClick={() => setIsSettingsOpen(true)} className="p-3 text-blue-500 hover:bg-blue-50 rounded-full transition-colors">
+                <Settings className="w-6 h-6" />
+              </button>
               <div className="h-8 w-px bg-slate-100 mx-1"></div>
               <button onClick={detectRealLocation} className="p-3 text-blue-500 hover:bg-blue-50 rounded-full transition-colors">
                 <LocateFixed className="w-6 h-6" />
@@ -405,20 +1307,81 @@ export default function App() {
                 </div>
                 <div className="overflow-hidden">
                   <h2 className={`text-lg font-black uppercase truncate ${isDarkMode ? 'text-white' : 'text-slate-700'}`}>{cityName}</h2>
-                  <p className="text-sm font-bold text-blue-500">{cityPopulation}</p>
+                  <p className="text-sm font-bold text-blue-500">
+                    {cityPopulation}
+                    {districts.length > 0 && <span className="text-green-500"> · {cityCoverage(districts)}% coberto</span>}
+                  </p>
                 </div>
               </div>
             </div>
           )}
 
+          {isSupervisor && (
+            <TeamRoster
+              isDarkMode={isDarkMode}
+              agents={teamAgents}
+              connection={teamConnection}
+              onSelect={(agent) => {
+                if (window.innerWidth < 768) setIsSidebarOpen(false);
+                if (agent.position) setMapCenter(agent.position);
+              }}
+            />
+          )}
+
           <div className="flex gap-2 mb-6">
             <button onClick={() => setActiveTab('stops')} className={`flex-1 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'stops' ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-[#2d2d2d] text-white/40' : 'bg-slate-100 text-slate-400'}`}>Pontos</button>
             <button onClick={() => setActiveTab('districts')} className={`flex-1 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'districts' ? 'bg-green-600 text-white shadow-lg shadow-green-500/30' : isDarkMode ? 'bg-[#2d2d2d] text-white/40' : 'bg-slate-100 text-slate-400'}`}>Distritos</button>
           </div>
+
+          <div className="flex gap-2 mb-2">
+            <button onClick={planMyDay} className={`flex-1 py-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all active:scale-95 flex items-center justify-center gap-3 ${isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}>
+              <ListOrdered className="w-5 h-5" /> Planejar meu dia
+            </button>
+            <button onClick={() => setIsImportOpen(true)} className={`px-5 rounded-2xl transition-all active:scale-95 ${customerList ? 'bg-blue-600 text-white' : isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}>
+              <FileUp className="w-5 h-5" />
+            </button>
+            {canEditTerritories && placesCity && (
+              <button onClick={() => setIsTerritoryOpen(true)} className={`px-5 rounded-2xl transition-all active:scale-95 ${territoryPlan ? 'bg-violet-500 text-white' : isDarkMode ? 'bg-white/5 text-violet-400' : 'bg-violet-50 text-violet-600'}`}>
+                <LandPlot className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-2 mb-2">
+            {TRAVEL_PROFILES.map((profile) => {
+              const Icon = PROFILE_ICONS[profile.id];
+              return (
+                <button
+                  key={profile.id}
+                  onClick={() => setSettings(prev => ({ ...prev, travelProfile: profile.id }))}
+                  className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 flex items-center justify-center gap-2 ${settings.travelProfile === profile.id ? 'bg-blue-600 text-white' : isDarkMode ? 'bg-white/5 text-white/40' : 'bg-slate-50 text-slate-400'}`}
+                >
+                  <Icon className="w-4 h-4" /> {profile.label}
+                </button>
+              );
+            })}
+          </div>
+          {!profileHasOwnRoutes(settings, settings.travelProfile) && (
+            <p className="mb-2 text-[10px] font-bold text-amber-600">Sem rotas próprias para este perfil no servidor: o trajeto é o de carro e só o tempo previsto muda.</p>
+          )}
+
+          {territoryPlan && (
+            <div className="flex items-center gap-3 mt-2">
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: shownTerritory?.color ?? '#94a3b8' }} />
+              <select
+                value={shownTerritory?.agentName ?? ''}
+                onChange={(e) => setTerritoryChoice(e.target.value)}
+                className={`flex-1 rounded-xl border-none py-2 px-3 text-[11px] font-black uppercase tracking-widest focus:ring-2 focus:ring-violet-500 ${isDarkMode ? 'bg-white/5 text-white/70' : 'bg-slate-50 text-slate-500'}`}
+              >
+                <option value="">Todos os territórios</option>
+                {territoryPlan.territories.map(t => <option key={t.agentName} value={t.agentName}>Território de {t.agentName}</option>)}
+              </select>
+            </div>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto px-6 space-y-4 pb-8">
-          {activeTab === 'stops' ? businesses.map((b) => (
+          {activeTab === 'stops' ? visibleBusinesses.map((b) => (
             <div key={b.id} onClick={() => setSelectedPoint(b)} className={`p-5 rounded-[2rem] border-2 transition-all cursor-pointer group ${selectedPoint?.id === b.id ? 'border-blue-500 scale-[1.02]' : isDarkMode ? 'bg-[#2d2d2d] border-white/5 hover:border-white/20' : 'bg-white border-slate-50 shadow-sm hover:border-blue-100'}`}>
               <div className="flex items-start gap-4 mb-4">
                 <div className={`p-4 rounded-2xl transition-colors ${selectedPoint?.id === b.id ? 'bg-blue-600 text-white' : isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-500'}`}>
@@ -427,15 +1390,17 @@ export default function App() {
                 <div className="overflow-hidden">
                   <h4 className={`text-base font-black leading-tight mb-1 truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{b.name}</h4>
                   <p className="text-[11px] font-bold text-slate-400 line-clamp-1">{b.address}</p>
+                  <OpenBadge business={b} now={clock} />
+                  {b.missing && <span className="inline-block mt-1 px-2 py-0.5 rounded-lg bg-amber-50 text-amber-600 text-[9px] font-black uppercase">Não listado na última busca</span>}
                 </div>
               </div>
               <div className="flex gap-2">
-                <button onClick={(e) => { e.stopPropagation(); handleStatusUpdate(b.id, 'success'); }} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase transition-all ${isDarkMode ? 'bg-green-500/20 text-green-400' : 'bg-green-50 text-green-600'}`}>OK</button>
-                <button onClick={(e) => { e.stopPropagation(); handleStatusUpdate(b.id, 'failure'); }} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase transition-all ${isDarkMode ? 'bg-red-500/20 text-red-400' : 'bg-red-50 text-red-600'}`}>ERRO</button>
+                <button onClick={(e) => { e.stopPropagation(); openVisitForm(b, 'success'); }} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase transition-all ${isDarkMode ? 'bg-green-500/20 text-green-400' : 'bg-green-50 text-green-600'}`}>OK</button>
+                <button onClick={(e) => { e.stopPropagation(); openVisitForm(b, 'failure'); }} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase transition-all ${isDarkMode ? 'bg-red-500/20 text-red-400' : 'bg-red-50 text-red-600'}`}>ERRO</button>
                 <button onClick={(e) => { e.stopPropagation(); goToLocation(b); }} className="p-3 bg-blue-600 text-white rounded-xl shadow-lg shadow-blue-500/30 active:scale-90"><Navigation className="w-5 h-5" /></button>
               </div>
             </div>
-          )) : districts.map((d) => (
+          )) : visibleDistricts.map((d) => (
             <div key={d.id} onClick={() => setSelectedPoint(d)} className={`p-5 rounded-[2rem] border-2 transition-all cursor-pointer ${selectedPoint?.id === d.id ? 'border-blue-500 bg-blue-500/5' : isDarkMode ? 'bg-[#2d2d2d] border-white/5' : 'bg-white border-slate-50 shadow-sm'}`}>
               <div className="flex items-start gap-4 mb-4">
                 <div className="p-4 bg-green-500 text-white rounded-2xl shadow-lg shadow-green-500/20"><Tent className="w-6 h-6" /></div>
@@ -446,18 +1411,40 @@ export default function App() {
                     <span className="text-[11px] font-black text-green-500 uppercase">{d.population}</span>
                   </div>
                 </div>
+                <span className="ml-auto text-lg font-black shrink-0" style={{ color: coverageColor(d.coverage) }}>{d.coverage ?? 0}%</span>
+              </div>
+              <div className={`h-2 rounded-full mb-4 overflow-hidden ${isDarkMode ? 'bg-white/5' : 'bg-slate-100'}`}>
+                <div className="h-full rounded-full transition-all duration-500" style={{ width: `${d.coverage ?? 0}%`, backgroundColor: coverageColor(d.coverage) }} />
               </div>
               <p className="text-xs font-bold text-slate-500 mb-4 line-clamp-2 italic opacity-80">"{d.description}"</p>
+              <button onClick={(e) => { e.stopPropagation(); togglePlannedDistrict(d.id); }} className={`w-full py-3 mb-2 rounded-[1.5rem] text-[10px] font-black tracking-widest uppercase transition-all ${plannedDistrictIds.includes(d.id) ? 'bg-green-500 text-white' : isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-100 text-slate-500'}`}>
+                {plannedDistrictIds.includes(d.id) ? 'NO PLANO DO DIA' : 'INCLUIR NO PLANO'}
+              </button>
               <button onClick={(e) => { e.stopPropagation(); goToLocation(d); }} className="w-full py-4 bg-blue-600 text-white rounded-[1.5rem] text-[11px] font-black tracking-widest uppercase shadow-xl shadow-blue-500/20 active:scale-95">IR PARA O LOCAL</button>
             </div>
           ))}
         </div>
 
         <div className={`p-8 border-t ${isDarkMode ? 'bg-[#1a1a1a] border-white/5' : 'bg-white border-slate-50'}`}>
-          <button onClick={toggleNavigation} className={`w-full py-6 rounded-[2.5rem] font-black uppercase text-base tracking-widest shadow-[0_20px_40px_rgba(0,0,0,0.15)] transition-all active:scale-95 flex items-center justify-center gap-4 ${isNavigating ? 'bg-red-600 text-white' : 'bg-blue-600 text-white'}`}>
-            {isNavigating ? <XCircle className="w-7 h-7" /> : <Navigation className="w-7 h-7" />}
-            {isNavigating ? 'PARAR RASTREIO' : 'INICIAR TRABALHO'}
-          </button>
+          {isNavigating && (
+            <div className="flex items-center justify-between mb-4 px-2">
+              <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${shiftState === 'working' ? 'bg-green-100 text-green-600' : shiftState === 'idle' ? 'bg-amber-100 text-amber-600' : 'bg-slate-100 text-slate-500'}`}>
+                {SHIFT_STATE_LABELS[shiftState]}
+              </span>
+              <span className="text-[11px] font-black text-slate-400 uppercase">Desde {formatClock(shiftLog[shiftLog.length - 1].at)}</span>
+            </div>
+          )}
+          <div className="flex gap-3">
+            {isNavigating && (
+              <button onClick={toggleBreak} className={`px-6 rounded-[2.5rem] font-black transition-all active:scale-95 flex items-center justify-center ${shiftState === 'onBreak' ? 'bg-green-500 text-white' : isDarkMode ? 'bg-white/5 text-white/70' : 'bg-slate-100 text-slate-600'}`}>
+                {shiftState === 'onBreak' ? <Play className="w-7 h-7" /> : <Coffee className="w-7 h-7" />}
+              </button>
+            )}
+            <button onClick={toggleNavigation} className={`flex-1 py-6 rounded-[2.5rem] font-black uppercase text-base tracking-widest shadow-[0_20px_40px_rgba(0,0,0,0.15)] transition-all active:scale-95 flex items-center justify-center gap-4 ${isNavigating ? 'bg-red-600 text-white' : 'bg-blue-600 text-white'}`}>
+              {isNavigating ? <XCircle className="w-7 h-7" /> : <Navigation className="w-7 h-7" />}
+              {isNavigating ? 'ENCERRAR TURNO' : 'INICIAR TRABALHO'}
+            </button>
+          </div>
         </div>
       </aside>
 
@@ -465,13 +1452,9 @@ export default function App() {
       <main className="flex-1 relative overflow-hidden">
         <MapContainer center={[INITIAL_COORDS.lat, INITIAL_COORDS.lng]} zoom={16} zoomControl={false} className="z-10 h-full w-full">
           <TileLayer 
-            url={isDarkMode 
-              ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
-              : "https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png"
-            } 
+            url={isDarkMode ? TILE_URLS.dark : TILE_URLS.light} 
             attribution='&copy; Rotas Bets Map'
           />
-          <LocationTracker onLocationUpdate={handleLocationUpdate} enabled={true} />
           <MapController center={mapCenter} followUser={followUser} userLoc={currentLocation} />
 
           {/* Rastro de Percurso Persistente - LINHA CONTÍNUA E NÃO PONTILHADA */}
@@ -485,42 +1468,76 @@ export default function App() {
             />
           )}
 
+          {/* Turno salvo selecionado no histórico */}
+          {selectedHistory && (
+            <Polyline positions={selectedHistory.path.map(p => [p.lat, p.lng])} color="#0f172a" weight={6} opacity={0.7} lineCap="round" />
+          )}
+          <PathBoundsFitter path={selectedHistory?.path ?? null} />
+          {replay?.history.track && replay.startedAt !== null && replayPlayback && replayCar && (
+            <Polyline
+              positions={[
+                ...replay.history.track.filter(tp => tp.timestamp - replay.startedAt! <= replayPlayback.positionMs).map(tp => [tp.location.lat, tp.location.lng]),
+                [replayCar.position.lat, replayCar.position.lng],
+              ]}
+              color="#3b82f6" weight={6} opacity={0.9} lineCap="round"
+            />
+          )}
+          {replayCar && <CarMarker position={replayCar.position} rotation={replayCar.rotation} />}
+
           {/* Rota Ativa de Navegação - LINHA CONTÍNUA */}
           {activeNavigation?.geometry && (
              <>
                <Polyline positions={activeNavigation.geometry} color={isDarkMode ? "#ffffff" : "#ffffff"} weight={18} opacity={0.3} lineCap="round" />
-               <Polyline positions={activeNavigation.geometry} color="#2563eb" weight={12} opacity={1} lineCap="round" className="navigation-active-line" />
+               {activeNavigation.progressPoint && (
+                 <Polyline positions={[...activeNavigation.geometry.slice(0, activeNavigation.progressIndex + 1), activeNavigation.progressPoint]} color="#94a3b8" weight={12} opacity={0.8} lineCap="round" />
+               )}
+               <Polyline
+                 positions={activeNavigation.progressPoint
+                   ? [activeNavigation.progressPoint, ...activeNavigation.geometry.slice(activeNavigation.progressIndex + 1)]
+                   : activeNavigation.geometry}
+                 color="#2563eb" weight={12} opacity={1} lineCap="round" className="navigation-active-line"
+                 dashArray={activeNavigation.estimated ? '2 18' : undefined}
+               />
              </>
           )}
 
+          {territoryShapes.map(({ territory, hull }) => hull.length >= 3 ? (
+            <Polygon key={`territory-${territory.agentName}`} positions={hull.map(p => [p.lat, p.lng])} pathOptions={{ color: territory.color, weight: territory === shownTerritory ? 4 : 2, dashArray: '8 6', fillOpacity: 0.15 }} />
+          ) : hull.map((p, i) => (
+            <Circle key={`territory-${territory.agentName}-${i}`} center={[p.lat, p.lng]} radius={150} pathOptions={{ color: territory.color, weight: 2, dashArray: '8 6', fillOpacity: 0.15 }} />
+          )))}
+
+          {districts.map((d) => d.polygon && d.polygon.length >= 3 ? (
+            <Polygon key={`area-${d.id}`} positions={d.polygon.map(p => [p.lat, p.lng])} pathOptions={{ color: coverageColor(d.coverage), weight: 2, fillOpacity: 0.08 }} />
+          ) : (
+            <Circle key={`area-${d.id}`} center={[d.lat, d.lng]} radius={DISTRICT_RADIUS_M} pathOptions={{ color: coverageColor(d.coverage), weight: 2, fillOpacity: 0.08 }} />
+          ))}
+
           {districts.map((d) => (
-            <Marker key={d.id} position={[d.lat, d.lng]} eventHandlers={{ click: () => setSelectedPoint(d) }} icon={createCustomIcon(selectedPoint?.id === d.id ? '#2563eb' : '#4b4b4b')} />
+            <Marker key={d.id} position={[d.lat, d.lng]} eventHandlers={{ click: () => setSelectedPoint(d) }} icon={createCustomIcon(selectedPoint?.id === d.id ? '#2563eb' : coverageColor(d.coverage))} />
           ))}
 
           {businesses.map((b) => (
-            <Marker key={b.id} position={[b.lat, b.lng]} eventHandlers={{ click: () => setSelectedPoint(b) }} icon={createCustomIcon(b.status === 'success' ? '#10b981' : b.status === 'failure' ? '#ef4444' : selectedPoint?.id === b.id ? '#2563eb' : '#3b82f6')} />
+            <Marker key={b.id} position={[b.lat, b.lng]} opacity={b.missing ? 0.4 : 1} eventHandlers={{ click: () => setSelectedPoint(b) }} icon={createCustomIcon(b.status === 'success' ? '#10b981' : b.status === 'failure' ? '#ef4444' : selectedPoint?.id === b.id ? '#2563eb' : '#3b82f6')} />
           ))}
 
-          {currentLocation && (
-            <Marker position={[currentLocation.lat, currentLocation.lng]} icon={L.divIcon({
-              html: `
-                <div class="relative flex items-center justify-center transition-all duration-300" style="transform: rotate(${carRotation}deg)">
-                  <div class="absolute w-24 h-24 bg-blue-500/10 rounded-full animate-ping"></div>
-                  <div class="relative w-12 h-12 bg-blue-600 border-[5px] border-white rounded-full shadow-[0_15px_40px_rgba(37,99,235,0.4)] flex items-center justify-center overflow-visible">
-                    <div class="absolute -top-3 w-0 h-0 border-l-[12px] border-l-transparent border-r-[12px] border-r-transparent border-b-[20px] border-b-white"></div>
-                    <div class="w-4 h-4 bg-white rounded-full"></div>
-                  </div>
-                </div>
-              `,
-              className: 'waze-car-pointer', iconSize: [48, 48], iconAnchor: [24, 24]
-            })} />
-          )}
+          {dayPlan?.map((stop, i) => (
+            <Marker key={`plan-${stop.id}`} position={[stop.lat, stop.lng]} zIndexOffset={500} eventHandlers={{ click: () => setSelectedPoint(stop.kind === 'business' ? businesses.find(b => b.id === stop.id) : districts.find(d => d.id === stop.id)) }} icon={createNumberedIcon(i + 1, isStopDone(stop) ? '#94a3b8' : i === planIndex - 1 ? '#2563eb' : '#0f172a')} />
+          ))}
+
+          {isSupervisor && <TeamLayer agents={teamAgents} />}
+
+          {currentLocation && <CarMarker position={currentLocation} rotation={carRotation} />}
         </MapContainer>
 
+        {notice && !activeNavigation && (
+          <NoticeBanner notice={notice} isDarkMode={isDarkMode} onDismiss={() => setNotice(null)} />
+        )}
+
         {/* Selected Point Bottom Sheet - Mobile Style */}
         {selectedPoint && !activeNavigation && (
           <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[150] w-[94%] max-w-lg animate-in slide-in-from-bottom-10 duration-500">
-            <div className={`p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-blue-600 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+            <div className={`p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-blue-600 max-h-[80dvh] overflow-y-auto ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
               <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center gap-5 overflow-hidden">
                   <div className={`p-5 rounded-3xl shadow-xl shrink-0 ${selectedPoint.type === 'city' ? 'bg-blue-600 text-white' : 'bg-green-500 text-white'}`}>
@@ -539,6 +1556,48 @@ export default function App() {
                 </button>
               </div>
               
+              {territoryPlan && [...businesses, ...districts].some(p => p.id === selectedPoint.id) && (
+                <div className="mb-6 flex items-center gap-3">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: territoryOf(territoryPlan, selectedPoint.id)?.color ?? '#94a3b8' }} />
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] shrink-0">Território</span>
+                  {canEditTerritories ? (
+                    <select
+                      value={territoryPlan.pins[selectedPoint.id] ?? ''}
+                      onChange={(e) => updateTerritoryPlan(pinPoint(territoryPlan, selectedPoint.id, e.target.value))}
+                      className={`flex-1 rounded-xl border-none py-2 px-3 text-sm font-bold focus:ring-2 focus:ring-violet-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-slate-50 text-slate-700'}`}
+                    >
+                      <option value="">{territoryOf(territoryPlan, selectedPoint.id)?.agentName ?? 'Sem território'} (automático)</option>
+                      {territoryPlan.territories.map(t => <option key={t.agentName} value={t.agentName}>Sempre de {t.agentName}</option>)}
+                    </select>
+                  ) : (
+                    <span className={`text-sm font-black ${isDarkMode ? 'text-white' : 'text-slate-700'}`}>{territoryOf(territoryPlan, selectedPoint.id)?.agentName ?? 'Sem território'}</span>
+                  )}
+                </div>
+              )}
+
+              {selectedBusiness && (
+                <BusinessHoursEditor
+                  key={selectedBusiness.id}
+                  isDarkMode={isDarkMode}
+                  business={selectedBusiness}
+                  onSave={(hours) => setBusinesses(prev => prev.map(b => b.id === selectedBusiness.id ? { ...b, ...hours } : b))}
+                />
+              )}
+
+              {selectedCheckIns.length > 0 && (
+                <div className="mb-6 space-y-2">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Check-ins automáticos</p>
+                  {selectedCheckIns.slice(0, 5).map((c) => (
+                    <div key={c.id} className={`flex items-center justify-between px-4 py-2 rounded-xl text-xs font-bold ${isDarkMode ? 'bg-white/5 text-white/70' : 'bg-slate-50 text-slate-500'}`}>
+                      <span>{new Date(c.arrivedAt).toLocaleDateString('pt-BR')} · {formatClock(c.arrivedAt)} – {c.departedAt ? formatClock(c.departedAt) : 'no local'}</span>
+                      {c.outcome && <span className={c.outcome === 'success' ? 'text-green-500' : 'text-red-500'}>{c.outcome === 'success' ? 'OK' : 'ERRO'}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {selectedVisits.length > 0 && <VisitTimeline visits={selectedVisits} isDarkMode={isDarkMode} />}
+
               {selectedPoint.description && (
                 <p className={`text-sm mb-6 font-medium italic opacity-60 ${isDarkMode ? 'text-white' : 'text-slate-600'}`}>"{selectedPoint.description}"</p>
               )}
@@ -550,11 +1609,49 @@ export default function App() {
                 >
                   IR AGORA <Navigation2 className="w-7 h-7 rotate-45" />
                 </button>
+                {businesses.some(b => b.id === selectedPoint.id) && (
+                  <button
+                    onClick={() => openVisitForm(selectedPoint, 'success')}
+                    className={`px-6 rounded-[2rem] shadow-lg transition-all active:scale-95 ${isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}
+                  >
+                    <ClipboardCheck className="w-8 h-8" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
         )}
 
+        {/* Day Plan Card - steps through the optimized stops */}
+        {dayPlan && !selectedPoint && !activeNavigation && (
+          <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[150] w-[94%] max-w-lg animate-in slide-in-from-bottom-10 duration-500">
+            <div className={`p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-slate-900 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+              <div className="flex items-center justify-between mb-6">
+                <div className="overflow-hidden">
+                  <p className="text-sm font-black text-slate-400 uppercase tracking-widest mb-1">
+                    {nextPlanIndex !== -1 ? `Parada ${nextPlanIndex + 1} de ${dayPlan.length}` : 'Plano concluído'}
+                  </p>
+                  <h3 className={`text-2xl font-black leading-none truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>
+                    {nextPlanIndex !== -1 ? dayPlan[nextPlanIndex].name : 'Todas as paradas visitadas'}
+                  </h3>
+                  {nextPlanIndex !== -1 && dayPlan[nextPlanIndex].eta && (
+                    <p className="text-xs font-bold text-slate-400 mt-2">Previsto para {formatClock(dayPlan[nextPlanIndex].eta!)}</p>
+                  )}
+                </div>
+                <button onClick={() => setDayPlan(null)} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+                  <XCircle className="w-10 h-10" />
+                </button>
+              </div>
+              <button
+                onClick={goToNextPlannedStop}
+                className="w-full py-6 bg-blue-600 hover:bg-blue-700 text-white rounded-[2rem] font-black text-xl tracking-[0.1em] shadow-2xl shadow-blue-500/30 transition-all active:scale-95 flex items-center justify-center gap-4"
+              >
+                IR AGORA <Navigation2 className="w-7 h-7 rotate-45" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Real-time Navigation HUD (Top and Bottom) */}
         {activeNavigation && (
           <>
@@ -562,11 +1659,25 @@ export default function App() {
             <div className="absolute top-6 left-1/2 -translate-x-1/2 z-[160] w-[94%] max-w-2xl animate-in slide-in-from-top-10 duration-500">
                <div className="bg-blue-600 p-6 md:p-8 rounded-[2.5rem] shadow-[0_25px_60px_rgba(0,0,0,0.3)] flex items-center gap-6">
                   <div className="bg-white/20 p-5 rounded-3xl shadow-inner backdrop-blur-sm">
-                    <NavigationIcon className="text-white w-10 h-10" />
+                    {activeNavigation.steps.length > 0
+                      ? <ManeuverIcon step={activeNavigation.steps[activeNavigation.currentStep]} className="text-white w-10 h-10" />
+                      : <NavigationIcon className="text-white w-10 h-10" />}
                   </div>
                   <div className="flex-1 overflow-hidden">
-                    <p className="text-white/70 text-sm font-black uppercase tracking-widest mb-1">Seguir para</p>
-                    <h3 className="text-white font-black text-xl md:text-3xl uppercase truncate leading-tight tracking-tight">{activeNavigation.target.name}</h3>
+                    {activeNavigation.steps.length > 0 ? (
+                      <>
+                        <p className="text-white/70 text-sm font-black uppercase tracking-widest mb-1">
+                          {activeNavigation.distanceToStep > 0 ? `Em ${formatMeters(activeNavigation.distanceToStep)}` : 'Agora'}
+                        </p>
+                        <h3 className="text-white font-black text-xl md:text-3xl truncate leading-tight tracking-tight">{activeNavigation.steps[activeNavigation.currentStep]?.instruction}</h3>
+                        <p className="text-white/60 text-xs font-bold uppercase tracking-widest mt-1 truncate">Destino: {activeNavigation.target.name}</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-white/70 text-sm font-black uppercase tracking-widest mb-1">Seguir para</p>
+                        <h3 className="text-white font-black text-xl md:text-3xl uppercase truncate leading-tight tracking-tight">{activeNavigation.target.name}</h3>
+                      </>
+                    )}
                   </div>
                   <button onClick={() => { setActiveNavigation(null); setFollowUser(false); }} className="p-3 text-white/50 hover:text-white transition-colors">
                     <XCircle className="w-10 h-10" />
@@ -586,6 +1697,11 @@ export default function App() {
                   <p className="text-sm font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
                     Chegada às {activeNavigation.arrivalTime} <div className="w-1 h-1 bg-slate-300 rounded-full"></div> <Timer className="w-4 h-4" />
                   </p>
+                  {activeNavigation.estimated && (
+                    <p className="mt-2 px-3 py-1 rounded-lg bg-amber-50 text-amber-600 text-[10px] font-black uppercase tracking-widest">
+                      Estimativa em linha reta
+                    </p>
+                  )}
                 </div>
                 
                 <div className="flex gap-3">
@@ -601,6 +1717,86 @@ export default function App() {
           </>
         )}
 
+        {/* Automatic check-out prompt */}
+        {pendingCheckOut && (
+          <CheckOutSheet
+            checkIn={pendingCheckOut}
+            isDarkMode={isDarkMode}
+            onOutcome={handleCheckOutOutcome}
+            onDismiss={() => setPendingCheckOut(null)}
+          />
+        )}
+
+        {visitDraft && (
+          <VisitForm
+            businessName={visitDraft.businessName}
+            initialOutcome={visitDraft.outcome}
+            failureReasons={settings.failureReasons}
+            isDarkMode={isDarkMode}
+            onSubmit={submitVisit}
+            onClose={() => setVisitDraft(null)}
+          />
+        )}
+
+        {isImportOpen && (
+          <ImportPanel
+            isDarkMode={isDarkMode}
+            currentSource={customerList?.source ?? null}
+            onImport={handleImport}
+            onClear={handleClearImport}
+            onClose={() => setIsImportOpen(false)}
+          />
+        )}
+
+        {shiftSummary && (
+          <ShiftSummaryPanel isDarkMode={isDarkMode} summary={shiftSummary} onClose={() => setShiftSummary(null)} />
+        )}
+
+        {isOfflineOpen && (
+          <OfflineMapPanel
+            isDarkMode={isDarkMode}
+            isOnline={isOnline}
+            pendingActions={pendingActions}
+            rejectedActions={rejectedActions}
+            onDiscardRejected={async () => {
+              await discardRejectedActions();
+              setRejectedActions([]);
+              setPendingActions((await listActions()).length);
+            }}
+            center={mapCenter ?? INITIAL_COORDS}
+            areaName={cityName || 'área atual'}
+            tileTemplate={isDarkMode ? TILE_URLS.dark : TILE_URLS.light}
+            onClose={() => setIsOfflineOpen(false)}
+          />
+        )}
+
+        {isTerritoryOpen && placesCity && (
+          <TerritoryPanel
+            isDarkMode={isDarkMode}
+            cityName={placesCity}
+            businesses={businesses}
+            districts={districts}
+            plan={territoryPlan}
+            suggestedAgents={teamAgents.map(a => a.name)}
+            isShared={isSupervisor}
+            onSave={(plan) => {
+              updateTerritoryPlan(plan);
+              setTerritoryChoice(null);
+              setIsTerritoryOpen(false);
+              speakStatus(`Cidade dividida em ${plan.territories.length} territórios.`);
+            }}
+            onClear={() => {
+              if (territoryPlan) updateTerritoryPlan({ ...territoryPlan, territories: [], pins: {}, updatedAt: Date.now() });
+              setIsTerritoryOpen(false);
+            }}
+            onClose={() => setIsTerritoryOpen(false)}
+          />
+        )}
+
+        {isSettingsOpen && (
+          <SettingsPanel isDarkMode={isDarkMode} settings={settings} teamConnection={teamConnection} onChange={setSettings} onClose={() => setIsSettingsOpen(false)} />
+        )}
+
         {/* Global Loading */}
         {isLoading && (
           <div className="absolute inset-0 z-[200] bg-black/40 backdrop-blur-md flex items-center justify-center">
@@ -619,16 +1815,77 @@ export default function App() {
           </div>
         )}
 
+        {replay && replayPlayback && !activeNavigation && (
+          <ShiftReplay
+            isDarkMode={isDarkMode}
+            title={`${replay.history.date} · ${replay.history.startTime} – ${replay.history.endTime}`}
+            startedAt={replay.startedAt}
+            playback={replayPlayback}
+            events={replay.events}
+            onPlay={() => replay.source.play()}
+            onPause={() => replay.source.pause()}
+            onSeek={(ms) => replay.source.seek(ms)}
+            onSpeed={(speed) => replay.source.setSpeed(speed)}
+            onEvent={jumpToReplayEvent}
+            onClose={stopReplay}
+          />
+        )}
+
+        {settings.developerMode && isDevPanelOpen && (
+          <DevPanel
+            isDarkMode={isDarkMode}
+            sourceKind={locationSource.kind}
+            playback={playback}
+            hasRoute={!!activeNavigation}
+            onUseBrowser={() => switchLocationSource(createBrowserSource())}
+            onReplayFile={replayTrackFile}
+            onFollowRoute={simulateActiveRoute}
+            onPlay={() => isPlaybackSource(locationSource) && locationSource.play()}
+            onPause={() => isPlaybackSource(locationSource) && locationSource.pause()}
+            onSeek={(ms) => isPlaybackSource(locationSource) && locationSource.seek(ms)}
+            onSpeed={(speed) => isPlaybackSource(locationSource) && locationSource.setSpeed(speed)}
+            onClose={() => setIsDevPanelOpen(false)}
+          />
+        )}
+
+        {settings.developerMode && !isDevPanelOpen && (
+          <button onClick={() => setIsDevPanelOpen(true)} className="absolute bottom-10 left-4 md:left-10 z-[110] p-4 rounded-full bg-purple-600 text-white shadow-3xl active:scale-90">
+            <Bug className="w-6 h-6" />
+          </button>
+        )}
+
+        <button
+          onClick={toggleListening}
+          title={settings.voiceHandsFree ? `Diga "${WAKE_WORD}" e o comando` : 'Falar um comando'}
+          className={`absolute top-1/2 -translate-y-1/2 right-4 md:right-10 z-[165] p-5 rounded-full shadow-3xl transition-all active:scale-90 ${isListening ? 'bg-red-500 text-white animate-pulse' : isDarkMode ? 'bg-[#2d2d2d] text-blue-400' : 'bg-white text-blue-600'}`}
+        >
+          {isListening ? <Mic className="w-7 h-7" /> : <MicOff className="w-7 h-7" />}
+        </button>
+
         {/* Floating Controls (Recent Location) */}
         {!activeNavigation && (
           <div className="absolute bottom-10 right-10 z-[110] flex flex-col gap-6">
-            <button onClick={() => setIsSidebarOpen(true)} className={`p-6 rounded-full shadow-3xl border-none transition-all active:scale-90 ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}>
+            <button onClick={openHistory} className={`p-6 rounded-full shadow-3xl border-none transition-all active:scale-90 ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}>
               <History className="w-8 h-8" />
             </button>
           </div>
         )}
       </main>
 
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        isDarkMode={isDarkMode}
+        histories={routeHistories}
+        selectedId={selectedHistory?.id ?? null}
+        onSelect={selectHistory}
+        onReplay={startReplay}
+        onDelete={handleDeleteHistory}
+        onClose={closeHistory}
+        hasCurrentShift={isNavigating && trackingPath.length > 1}
+        onExport={handleExport}
+        onImportTrack={handleImportTrack}
+      />
+
       {/* Overlay mobile */}
       {isSidebarOpen && (
         <div onClick={() => setIsSidebarOpen(false)} className="md:hidden fixed inset-0 bg-black/60 z-[130] backdrop-blur-md transition-opacity duration-500" />
@@ -0,0 +1,64 @@
+
+import React, { useState } from 'react';
+import { Clock } from 'lucide-react';
+import { BusinessPoint, WeeklyHours } from '../types';
+import { formatOpeningTime, formatWeeklyHours, nextAvailableAt, openStatus, parseWeeklyHours } from '../services/openingHoursService';
+
+/** Open/closed chip for the sidebar; nothing when the hours are unknown. */
+export const OpenBadge: React.FC<{ business: BusinessPoint; now: number }> = ({ business, now }) => {
+  if (!business.openingHours) return null;
+  const status = openStatus(business.openingHours, now);
+  const visitAt = status.open ? nextAvailableAt(business, now) : null;
+  const [label, tone] = !status.open
+    ? [status.changesAt ? `Fechado · abre ${formatOpeningTime(status.changesAt, now)}` : 'Fechado', 'bg-red-50 text-red-600']
+    : visitAt !== null && visitAt > now
+      ? [`Aberto · visita a partir de ${formatOpeningTime(visitAt, now)}`, 'bg-amber-50 text-amber-600']
+      : [status.changesAt ? `Aberto · fecha ${formatOpeningTime(status.changesAt, now)}` : 'Aberto', 'bg-green-50 text-green-600'];
+  return <span className={`inline-block mt-1 mr-1 px-2 py-0.5 rounded-lg text-[9px] font-black uppercase ${tone}`}>{label}</span>;
+};
+
+interface BusinessHoursEditorProps {
+  isDarkMode: boolean;
+  business: BusinessPoint;
+  onSave: (hours: { openingHours?: WeeklyHours; visitWindows?: WeeklyHours }) => void;
+}
+
+const BusinessHoursEditor: React.FC<BusinessHoursEditorProps> = ({ isDarkMode, business, onSave }) => {
+  const [opening, setOpening] = useState(() => formatWeeklyHours(business.openingHours));
+  const [windows, setWindows] = useState(() => formatWeeklyHours(business.visitWindows));
+  const [error, setError] = useState<string | null>(null);
+  const isDirty = opening !== formatWeeklyHours(business.openingHours) || windows !== formatWeeklyHours(business.visitWindows);
+
+  const save = () => {
+    try {
+      const openingHours = parseWeeklyHours(opening);
+      const visitWindows = parseWeeklyHours(windows);
+      setOpening(formatWeeklyHours(openingHours));
+      setWindows(formatWeeklyHours(visitWindows));
+      setError(null);
+      onSave({ openingHours, visitWindows });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const inputClass = `w-full rounded-xl border-none py-3 px-4 text-sm font-bold focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-slate-50 text-slate-700'}`;
+
+  return (
+    <div className="mb-6 space-y-2">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2">
+        <Clock className="w-3 h-3" /> Horários
+      </p>
+      <input value={opening} onChange={(e) => setOpening(e.target.value)} placeholder="Funcionamento, ex.: seg-sex 08:00-12:00, 14:00-18:00" className={inputClass} />
+      <input value={windows} onChange={(e) => setWindows(e.target.value)} placeholder="Melhor horário de visita, ex.: todos 15:00-17:00" className={inputClass} />
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+      {isDirty && (
+        <button onClick={save} className="w-full py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white active:scale-95">
+          Salvar horários
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BusinessHoursEditor;
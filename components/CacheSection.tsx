@@ -0,0 +1,69 @@
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Trash2, X } from 'lucide-react';
+import { CacheEntry, PersistentCache, listCaches, clearAllCaches } from '../services/cacheService';
+
+interface CacheGroup {
+  cache: PersistentCache<unknown>;
+  entries: CacheEntry[];
+}
+
+const formatAge = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} dias`;
+};
+
+const CacheSection: React.FC<{ isDarkMode: boolean }> = ({ isDarkMode }) => {
+  const [groups, setGroups] = useState<CacheGroup[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setGroups(await Promise.all(listCaches().map(async cache => ({ cache, entries: await cache.entries() }))));
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const total = groups.reduce((sum, g) => sum + g.entries.length, 0);
+  const now = Date.now();
+
+  return (
+    <div className="space-y-2">
+      {groups.map(({ cache, entries }) => (
+        <div key={cache.options.namespace} className={`rounded-2xl ${isDarkMode ? 'bg-white/5' : 'bg-white'}`}>
+          <button onClick={() => setExpanded(expanded === cache.options.namespace ? null : cache.options.namespace)} className="w-full px-4 py-3 flex items-center justify-between gap-3">
+            <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{cache.options.label}</span>
+            <span className="flex items-center gap-2 text-[11px] font-black text-slate-400">
+              {entries.length}/{cache.options.maxEntries}
+              <ChevronDown className={`w-4 h-4 transition-transform ${expanded === cache.options.namespace ? 'rotate-180' : ''}`} />
+            </span>
+          </button>
+          {expanded === cache.options.namespace && (
+            <div className={`px-4 pb-3 max-h-48 overflow-y-auto divide-y ${isDarkMode ? 'divide-white/5' : 'divide-slate-100'}`}>
+              {entries.length === 0 && <p className="py-2 text-xs font-bold text-slate-400">Vazio</p>}
+              {entries.map(entry => (
+                <div key={entry.id} className="py-2 flex items-center justify-between gap-3">
+                  <div className="overflow-hidden">
+                    <p className={`text-xs font-bold truncate ${isDarkMode ? 'text-white/70' : 'text-slate-600'}`}>{entry.key}</p>
+                    <p className="text-[10px] font-bold text-slate-400">há {formatAge(now - entry.createdAt)} · expira em {formatAge(entry.expiresAt - now)}</p>
+                  </div>
+                  <button onClick={async () => { await cache.delete(entry.key); refresh(); }} className="p-1 text-slate-400 hover:text-red-500 shrink-0">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <button onClick={async () => { await clearAllCaches(); refresh(); }} disabled={total === 0} className="w-full pt-2 flex items-center justify-center gap-2 text-[10px] font-black uppercase text-red-500 disabled:opacity-40">
+        <Trash2 className="w-4 h-4" /> Limpar cache ({total})
+      </button>
+    </div>
+  );
+};
+
+export default CacheSection;
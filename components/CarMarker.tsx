@@ -0,0 +1,25 @@
+
+import React from 'react';
+import { Marker } from 'react-leaflet';
+import L from 'leaflet';
+import { Location } from '../types';
+
+const carIcon = (rotation: number) => L.divIcon({
+  html: `
+    <div class="relative flex items-center justify-center transition-all duration-300" style="transform: rotate(${rotation}deg)">
+      <div class="absolute w-24 h-24 bg-blue-500/10 rounded-full animate-ping"></div>
+      <div class="relative w-12 h-12 bg-blue-600 border-[5px] border-white rounded-full shadow-[0_15px_40px_rgba(37,99,235,0.4)] flex items-center justify-center overflow-visible">
+        <div class="absolute -top-3 w-0 h-0 border-l-[12px] border-l-transparent border-r-[12px] border-r-transparent border-b-[20px] border-b-white"></div>
+        <div class="w-4 h-4 bg-white rounded-full"></div>
+      </div>
+    </div>
+  `,
+  className: 'waze-car-pointer', iconSize: [48, 48], iconAnchor: [24, 24]
+});
+
+/** Rotating vehicle pointer, for the live position and the shift replay. */
+const CarMarker: React.FC<{ position: Location; rotation: number }> = ({ position, rotation }) => (
+  <Marker position={[position.lat, position.lng]} icon={carIcon(rotation)} />
+);
+
+export default CarMarker;
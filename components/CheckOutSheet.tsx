@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { CheckCircle2, MapPinned, XCircle } from 'lucide-react';
+import { CheckIn } from '../types';
+
+interface CheckOutSheetProps {
+  checkIn: CheckIn;
+  isDarkMode: boolean;
+  onOutcome: (outcome: 'success' | 'failure') => void;
+  onDismiss: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const CheckOutSheet: React.FC<CheckOutSheetProps> = ({ checkIn, isDarkMode, onOutcome, onDismiss }) => (
+  <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[170] w-[94%] max-w-lg animate-in slide-in-from-bottom-10 duration-500">
+    <div className={`p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-amber-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-5 overflow-hidden">
+          <div className="p-5 rounded-3xl shadow-xl shrink-0 bg-amber-500 text-white">
+            <MapPinned className="w-10 h-10" />
+          </div>
+          <div className="overflow-hidden">
+            <p className="text-sm font-black text-slate-400 uppercase tracking-widest mb-1">Como foi a visita?</p>
+            <h3 className={`text-2xl font-black leading-none mb-2 truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{checkIn.businessName}</h3>
+            <p className="text-sm font-bold text-amber-500">
+              {formatTime(checkIn.arrivedAt)} – {checkIn.departedAt ? formatTime(checkIn.departedAt) : '...'}
+            </p>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+          <XCircle className="w-10 h-10" />
+        </button>
+      </div>
+
+      <div className="flex gap-4">
+        <button onClick={() => onOutcome('success')} className="flex-1 py-6 bg-green-500 hover:bg-green-600 text-white rounded-[2rem] font-black text-lg tracking-[0.1em] shadow-2xl shadow-green-500/30 transition-all active:scale-95 flex items-center justify-center gap-3">
+          <CheckCircle2 className="w-6 h-6" /> OK
+        </button>
+        <button onClick={() => onOutcome('failure')} className="flex-1 py-6 bg-red-500 hover:bg-red-600 text-white rounded-[2rem] font-black text-lg tracking-[0.1em] shadow-2xl shadow-red-500/30 transition-all active:scale-95 flex items-center justify-center gap-3">
+          <XCircle className="w-6 h-6" /> ERRO
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default CheckOutSheet;
@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { Bug, FileUp, LocateFixed, Pause, Play, Route, XCircle } from 'lucide-react';
+import { LocationSourceKind, PlaybackState } from '../services/locationSources';
+
+interface DevPanelProps {
+  isDarkMode: boolean;
+  sourceKind: LocationSourceKind;
+  playback: PlaybackState | null;
+  hasRoute: boolean;
+  onUseBrowser: () => void;
+  onReplayFile: (file: File) => void;
+  onFollowRoute: () => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (positionMs: number) => void;
+  onSpeed: (speed: number) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 5, 10, 20];
+
+const formatClock = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const DevPanel: React.FC<DevPanelProps> = ({ isDarkMode, sourceKind, playback, hasRoute, onUseBrowser, onReplayFile, onFollowRoute, onPlay, onPause, onSeek, onSpeed, onClose }) => {
+  const sourceClass = (active: boolean) => `flex-1 py-3 rounded-xl text-[10px] font-black uppercase flex flex-col items-center gap-1 transition-all disabled:opacity-40 ${active ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-50 text-slate-500'}`;
+
+  return (
+    <div className="absolute bottom-10 left-4 md:left-10 z-[115] w-[92%] max-w-sm animate-in slide-in-from-bottom-4 duration-300">
+      <div className={`p-6 rounded-[2.5rem] shadow-3xl border-t-8 border-purple-600 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Bug className="w-6 h-6 text-purple-600" />
+            <h3 className={`text-lg font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Fonte de GPS</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-300 hover:text-slate-500">
+            <XCircle className="w-7 h-7" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button onClick={onUseBrowser} className={sourceClass(sourceKind === 'browser')}>
+            <LocateFixed className="w-5 h-5" /> Aparelho
+          </button>
+          <label className={`${sourceClass(sourceKind === 'replay')} cursor-pointer`}>
+            <FileUp className="w-5 h-5" /> Trilha
+            <input
+              type="file"
+              accept=".gpx,.json,.geojson"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onReplayFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={onFollowRoute} disabled={!hasRoute} className={sourceClass(sourceKind === 'route')}>
+            <Route className="w-5 h-5" /> Rota
+          </button>
+        </div>
+
+        {sourceKind !== 'browser' && playback && (
+          <>
+            <div className="flex items-center gap-3 mb-3">
+              <button onClick={playback.playing ? onPause : onPlay} className="p-3 bg-purple-600 text-white rounded-xl active:scale-90">
+                {playback.playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={playback.durationMs}
+                step={1000}
+                value={playback.positionMs}
+                onChange={(e) => onSeek(Number(e.target.value))}
+                className="flex-1 accent-purple-600"
+              />
+            </div>
+            <p className="mb-3 text-[11px] font-black text-slate-400 text-right">
+              {formatClock(playback.positionMs)} / {formatClock(playback.durationMs)}
+            </p>
+            <div className="flex gap-1">
+              {SPEEDS.map(s => (
+                <button key={s} onClick={() => onSpeed(s)} className={`flex-1 py-2 rounded-lg text-[11px] font-black ${playback.speed === s ? 'bg-purple-600 text-white' : isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-50 text-slate-500'}`}>
+                  {s}×
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DevPanel;
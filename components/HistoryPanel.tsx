@@ -0,0 +1,119 @@
+
+import React from 'react';
+import { ChevronLeft, Download, FileUp, History, Play, Route, Trash2, Timer } from 'lucide-react';
+import { RouteHistory } from '../types';
+import { ExportFormat } from '../services/exportService';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  isDarkMode: boolean;
+  histories: RouteHistory[];
+  selectedId: string | null;
+  onSelect: (history: RouteHistory) => void;
+  /** Plays the shift back on the map with a timeline. */
+  onReplay: (history: RouteHistory) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  hasCurrentShift: boolean;
+  /** Exports a saved shift, or the shift in progress when `history` is null. */
+  onExport: (history: RouteHistory | null, format: ExportFormat) => void;
+  onImportTrack: (file: File) => void;
+}
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'gpx', label: 'GPX' },
+  { format: 'kml', label: 'KML' },
+  { format: 'geojson', label: 'GeoJSON' },
+];
+
+const ExportButtons: React.FC<{ isDarkMode: boolean; onExport: (format: ExportFormat) => void }> = ({ isDarkMode, onExport }) => (
+  <div className="flex gap-2">
+    {EXPORT_FORMATS.map(({ format, label }) => (
+      <button key={format} onClick={(e) => { e.stopPropagation(); onExport(format); }} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase flex items-center justify-center gap-1 transition-all active:scale-95 ${isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-100 text-slate-500'}`}>
+        <Download className="w-3 h-3" /> {label}
+      </button>
+    ))}
+  </div>
+);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, isDarkMode, histories, selectedId, onSelect, onReplay, onDelete, onClose, hasCurrentShift, onExport, onImportTrack }) => (
+  <aside className={`
+    fixed inset-y-0 right-0 z-[140] w-full max-w-[340px] md:max-w-[380px]
+    flex flex-col transition-transform duration-500 ease-out shadow-3xl
+    ${isDarkMode ? 'bg-[#1a1a1a]' : 'bg-white'}
+    ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+  `}>
+    <div className="p-8 pb-4">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="bg-slate-900 p-3 rounded-2xl shadow-xl">
+            <History className="text-white w-7 h-7" />
+          </div>
+          <div>
+            <h2 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Histórico</h2>
+            <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Turnos Salvos</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-50 rounded-full transition-all">
+          <ChevronLeft className="w-8 h-8 rotate-180" />
+        </button>
+      </div>
+
+      {hasCurrentShift && (
+        <div className={`p-5 mb-4 rounded-[2rem] border ${isDarkMode ? 'bg-[#2d2d2d] border-white/5' : 'bg-slate-50 border-slate-100'}`}>
+          <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] mb-3">Exportar turno atual</p>
+          <ExportButtons isDarkMode={isDarkMode} onExport={(format) => onExport(null, format)} />
+        </div>
+      )}
+
+      <label className={`w-full py-4 rounded-2xl text-[11px] font-black uppercase tracking-widest flex items-center justify-center gap-3 cursor-pointer transition-all active:scale-95 ${isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}>
+        <FileUp className="w-5 h-5" /> Abrir trilha GPX / GeoJSON
+        <input
+          type="file"
+          accept=".gpx,.json,.geojson"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportTrack(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+
+    <div className="flex-1 overflow-y-auto px-6 space-y-4 pb-8">
+      {histories.length === 0 && (
+        <p className="text-sm font-bold text-slate-400 text-center py-10">Nenhum turno registrado ainda.</p>
+      )}
+      {histories.map((h) => (
+        <div key={h.id} onClick={() => onSelect(h)} className={`p-5 rounded-[2rem] border-2 transition-all cursor-pointer ${selectedId === h.id ? 'border-blue-500 scale-[1.02]' : isDarkMode ? 'bg-[#2d2d2d] border-white/5 hover:border-white/20' : 'bg-white border-slate-50 shadow-sm hover:border-blue-100'}`}>
+          <div className="flex items-start gap-4">
+            <div className={`p-4 rounded-2xl transition-colors ${selectedId === h.id ? 'bg-blue-600 text-white' : isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-500'}`}>
+              <Route className="w-6 h-6" />
+            </div>
+            <div className="flex-1 overflow-hidden">
+              <h4 className={`text-base font-black leading-tight mb-1 ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{h.date}</h4>
+              <p className="text-[11px] font-bold text-slate-400 flex items-center gap-1.5">
+                <Timer className="w-3.5 h-3.5" /> {h.startTime} – {h.endTime}
+              </p>
+              <p className="text-sm font-black text-blue-500 mt-1">{h.distanceKm.toFixed(1)} km</p>
+            </div>
+            <button onClick={(e) => { e.stopPropagation(); onDelete(h.id); }} className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+          {selectedId === h.id && (
+            <div className="mt-4 space-y-2">
+              <button onClick={(e) => { e.stopPropagation(); onReplay(h); }} className="w-full py-3 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 bg-slate-900 text-white transition-all active:scale-95">
+                <Play className="w-4 h-4" /> Reproduzir turno
+              </button>
+              <ExportButtons isDarkMode={isDarkMode} onExport={(format) => onExport(h, format)} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  </aside>
+);
+
+export default HistoryPanel;
@@ -0,0 +1,188 @@
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, FileUp, Trash2, XCircle } from 'lucide-react';
+import { BusinessPoint } from '../types';
+import {
+  BusinessType,
+  ColumnMapping,
+  CsvTable,
+  parseCsv,
+  guessColumnMapping,
+  candidatesFromCsv,
+  candidatesFromGeoJson,
+  candidatesToBusinesses,
+} from '../services/importService';
+
+interface ImportPanelProps {
+  isDarkMode: boolean;
+  currentSource: string | null;
+  onImport: (businesses: BusinessPoint[], source: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<BusinessType, string> = { bar: 'Bar', salon: 'Salão', rental: 'Locadora' };
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { key: 'name', label: 'Nome', required: true },
+  { key: 'lat', label: 'Latitude', required: true },
+  { key: 'lng', label: 'Longitude', required: true },
+  { key: 'address', label: 'Endereço', required: false },
+  { key: 'type', label: 'Tipo', required: false },
+  { key: 'openingHours', label: 'Funcionamento', required: false },
+  { key: 'visitWindows', label: 'Janela de visita', required: false },
+];
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ isDarkMode, currentSource, onImport, onClear, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultType, setDefaultType] = useState<BusinessType>('bar');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isGeoJson = /\.(geo)?json$/i.test(fileName);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    setError(null);
+    if (/\.(geo)?json$/i.test(file.name)) {
+      setTable(null);
+      setMapping(null);
+    } else {
+      const parsed = parseCsv(text);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    }
+  };
+
+  const candidates = useMemo(() => {
+    try {
+      if (isGeoJson && fileText) return candidatesFromGeoJson(fileText, defaultType);
+      if (table && mapping && mapping.name >= 0 && mapping.lat >= 0 && mapping.lng >= 0) return candidatesFromCsv(table, mapping, defaultType);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+    return [];
+  }, [isGeoJson, fileText, table, mapping, defaultType]);
+
+  const parseError = typeof candidates === 'string' ? candidates : null;
+  const rows = typeof candidates === 'string' ? [] : candidates;
+  const importable = rows.filter(c => !c.error && (!skipDuplicates || c.duplicateOf === undefined));
+  const invalidCount = rows.filter(c => c.error).length;
+  const duplicateCount = rows.filter(c => !c.error && c.duplicateOf !== undefined).length;
+
+  const submit = () => {
+    if (importable.length === 0) {
+      setError('Nenhum ponto válido para importar.');
+      return;
+    }
+    onImport(candidatesToBusinesses(importable), fileName);
+  };
+
+  const selectClass = `rounded-xl border-none py-2 px-3 text-sm font-bold focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-slate-50 text-slate-700'}`;
+
+  return (
+    <div className="absolute inset-0 z-[190] bg-black/40 backdrop-blur-md flex items-end md:items-center justify-center" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-[94%] max-w-lg mb-10 md:mb-0 max-h-[85dvh] overflow-y-auto p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-blue-600 animate-in slide-in-from-bottom-10 duration-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-blue-600 p-3 rounded-2xl shadow-xl shadow-blue-500/30">
+              <FileUp className="text-white w-7 h-7" />
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">CSV ou GeoJSON</p>
+              <h2 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Importar pontos</h2>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+            <XCircle className="w-10 h-10" />
+          </button>
+        </div>
+
+        {currentSource && (
+          <div className={`mb-6 p-4 rounded-2xl flex items-center justify-between gap-3 ${isDarkMode ? 'bg-white/5' : 'bg-slate-50'}`}>
+            <p className={`text-xs font-bold truncate ${isDarkMode ? 'text-white/70' : 'text-slate-500'}`}>Lista atual: <span className="font-black">{currentSource}</span></p>
+            <button onClick={onClear} className="shrink-0 flex items-center gap-1 text-[10px] font-black uppercase text-red-500">
+              <Trash2 className="w-4 h-4" /> Usar lista da IA
+            </button>
+          </div>
+        )}
+
+        <label className={`mb-6 w-full py-5 rounded-2xl text-[11px] font-black uppercase tracking-widest flex items-center justify-center gap-3 cursor-pointer ${isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}>
+          <FileUp className="w-5 h-5" /> {fileName || 'Escolher arquivo'}
+          <input type="file" accept=".csv,.txt,.json,.geojson" className="hidden" onChange={handleFile} />
+        </label>
+
+        {table && mapping && (
+          <div className="mb-6 space-y-3">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Colunas</p>
+            {MAPPING_FIELDS.map(({ key, label, required }) => (
+              <label key={key} className="flex items-center justify-between gap-4">
+                <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{label}{required && ' *'}</span>
+                <select value={mapping[key]} onChange={(e) => setMapping({ ...mapping, [key]: Number(e.target.value) })} className={selectClass}>
+                  <option value={-1}>—</option>
+                  {table.headers.map((h, i) => <option key={i} value={i}>{h || `Coluna ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {fileName && (
+          <label className="mb-6 flex items-center justify-between gap-4">
+            <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>Tipo padrão</span>
+            <select value={defaultType} onChange={(e) => setDefaultType(e.target.value as BusinessType)} className={selectClass}>
+              {(Object.keys(TYPE_LABELS) as BusinessType[]).map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+            </select>
+          </label>
+        )}
+
+        {(parseError || error) && (
+          <p className="mb-4 p-4 rounded-2xl bg-red-50 text-red-600 text-xs font-bold">{parseError || error}</p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="mb-4 flex flex-wrap gap-2 text-[10px] font-black uppercase">
+              <span className="px-3 py-1 rounded-lg bg-green-50 text-green-600">{rows.length - invalidCount - duplicateCount} válidos</span>
+              {duplicateCount > 0 && <span className="px-3 py-1 rounded-lg bg-amber-50 text-amber-600">{duplicateCount} duplicados</span>}
+              {invalidCount > 0 && <span className="px-3 py-1 rounded-lg bg-red-50 text-red-600">{invalidCount} inválidos</span>}
+            </div>
+            {duplicateCount > 0 && (
+              <label className={`mb-4 flex items-center gap-3 text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>
+                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} className="rounded" />
+                Ignorar duplicados
+              </label>
+            )}
+            <div className={`mb-6 max-h-48 overflow-y-auto rounded-2xl divide-y ${isDarkMode ? 'bg-white/5 divide-white/5' : 'bg-slate-50 divide-slate-100'}`}>
+              {rows.map((c, i) => (
+                <div key={i} className="px-4 py-2 flex items-center justify-between gap-3 text-xs font-bold">
+                  <span className={`truncate ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{c.name || `Linha ${i + 2}`}</span>
+                  {c.error ? (
+                    <span className="shrink-0 text-red-500 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> {c.error}</span>
+                  ) : c.duplicateOf !== undefined ? (
+                    <span className="shrink-0 text-amber-500">Igual a {rows[c.duplicateOf].name}</span>
+                  ) : (
+                    <span className="shrink-0 text-slate-400">{TYPE_LABELS[c.type]}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <button onClick={submit} disabled={importable.length === 0} className="w-full py-6 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white rounded-[2rem] font-black text-xl tracking-[0.1em] shadow-2xl shadow-blue-500/30 transition-all active:scale-95">
+          IMPORTAR {importable.length} PONTOS
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPanel;
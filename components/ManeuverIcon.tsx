@@ -0,0 +1,23 @@
+
+import React from 'react';
+import { ArrowUp, ArrowUpLeft, ArrowUpRight, CornerUpLeft, CornerUpRight, Flag, RotateCw, Undo2 } from 'lucide-react';
+import { RouteStep } from '../types';
+
+const ManeuverIcon: React.FC<{ step?: RouteStep; className?: string }> = ({ step, className }) => {
+  if (!step) return <ArrowUp className={className} />;
+  if (step.type === 'arrive') return <Flag className={className} />;
+  if (step.type === 'roundabout' || step.type === 'rotary') return <RotateCw className={className} />;
+
+  switch (step.modifier) {
+    case 'uturn': return <Undo2 className={className} />;
+    case 'sharp right':
+    case 'right': return <CornerUpRight className={className} />;
+    case 'slight right': return <ArrowUpRight className={className} />;
+    case 'sharp left':
+    case 'left': return <CornerUpLeft className={className} />;
+    case 'slight left': return <ArrowUpLeft className={className} />;
+    default: return <ArrowUp className={className} />;
+  }
+};
+
+export default ManeuverIcon;
@@ -0,0 +1,40 @@
+
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, XCircle } from 'lucide-react';
+
+export interface Notice {
+  kind: 'error' | 'warning';
+  message: string;
+  details?: string[];
+}
+
+const NoticeBanner: React.FC<{ notice: Notice; isDarkMode: boolean; onDismiss: () => void }> = ({ notice, isDarkMode, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+  const tone = notice.kind === 'error' ? 'border-red-500 text-red-500' : 'border-amber-500 text-amber-500';
+
+  return (
+    <div className="absolute top-24 md:top-32 left-1/2 -translate-x-1/2 z-[125] w-[94%] max-w-2xl animate-in slide-in-from-top-2 duration-300">
+      <div className={`px-6 py-4 rounded-[2rem] shadow-2xl border-l-8 ${tone} ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center gap-4">
+          <AlertTriangle className="w-6 h-6 shrink-0" />
+          <p className={`flex-1 text-sm font-black ${isDarkMode ? 'text-white' : 'text-slate-700'}`}>{notice.message}</p>
+          {notice.details && notice.details.length > 0 && (
+            <button onClick={() => setExpanded(!expanded)} className="p-1 text-slate-400">
+              <ChevronDown className={`w-5 h-5 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+            </button>
+          )}
+          <button onClick={onDismiss} className="p-1 text-slate-300 hover:text-slate-500">
+            <XCircle className="w-6 h-6" />
+          </button>
+        </div>
+        {expanded && notice.details && (
+          <ul className="mt-3 max-h-40 overflow-y-auto space-y-1 text-[11px] font-bold text-slate-400">
+            {notice.details.map((d, i) => <li key={i}>{d}</li>)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoticeBanner;
@@ -0,0 +1,160 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CloudOff, Download, Trash2, Wifi, WifiOff, XCircle } from 'lucide-react';
+import { Location } from '../types';
+import { OutboxAction } from '../services/outboxService';
+import { MAX_PRECACHE_TILES, PrecacheProgress, tileUrlsForArea, precacheTiles, cachedTileCount, clearTileCache } from '../services/offlineMapService';
+
+interface OfflineMapPanelProps {
+  isDarkMode: boolean;
+  isOnline: boolean;
+  pendingActions: number;
+  /** Queued actions the server refused; they stay listed until discarded. */
+  rejectedActions: OutboxAction[];
+  onDiscardRejected: () => void;
+  center: Location;
+  areaName: string;
+  tileTemplate: string;
+  onClose: () => void;
+}
+
+const RADIUS_OPTIONS = [2, 5, 10, 20];
+
+const describeAction = (action: OutboxAction) =>
+  action.type === 'teamVisit' ? `Visita em ${action.payload.businessName}` : action.type === 'search' ? `Busca por ${action.payload.query}` : `Dados de ${action.payload.placeName}`;
+const ZOOM_LEVELS = [10, 11, 12, 13, 14, 15, 16, 17];
+
+const OfflineMapPanel: React.FC<OfflineMapPanelProps> = ({ isDarkMode, isOnline, pendingActions, rejectedActions, onDiscardRejected, center, areaName, tileTemplate, onClose }) => {
+  const [radiusKm, setRadiusKm] = useState(5);
+  const [minZoom, setMinZoom] = useState(12);
+  const [maxZoom, setMaxZoom] = useState(16);
+  const [progress, setProgress] = useState<PrecacheProgress | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const urls = useMemo(
+    () => tileUrlsForArea(center, radiusKm, minZoom, maxZoom, tileTemplate),
+    [center.lat, center.lng, radiusKm, minZoom, maxZoom, tileTemplate]
+  );
+  const tooMany = urls.length > MAX_PRECACHE_TILES;
+  const waiting = pendingActions - rejectedActions.length;
+
+  useEffect(() => {
+    cachedTileCount().then(setCachedCount).catch(() => setCachedCount(null));
+  }, []);
+
+  const download = async () => {
+    setIsDownloading(true);
+    setError(null);
+    try {
+      const result = await precacheTiles(urls, setProgress);
+      if (result.failed > 0) setError(`${result.failed} blocos não puderam ser baixados.`);
+      setCachedCount(await cachedTileCount());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await clearTileCache();
+      setCachedCount(0);
+      setProgress(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const chipClass = (active: boolean) => `flex-1 py-2 rounded-xl text-xs font-black transition-all ${active ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-50 text-slate-500'}`;
+  const selectClass = `rounded-xl border-none py-2 px-3 text-sm font-bold focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-slate-50 text-slate-700'}`;
+
+  return (
+    <div className="absolute inset-0 z-[190] bg-black/40 backdrop-blur-md flex items-end md:items-center justify-center" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-[94%] max-w-lg mb-10 md:mb-0 max-h-[85dvh] overflow-y-auto p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-blue-600 animate-in slide-in-from-bottom-10 duration-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-blue-600 p-3 rounded-2xl shadow-xl shadow-blue-500/30">
+              <CloudOff className="text-white w-7 h-7" />
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Trabalho sem sinal</p>
+              <h2 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Modo offline</h2>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+            <XCircle className="w-10 h-10" />
+          </button>
+        </div>
+
+        <div className={`mb-6 p-4 rounded-2xl flex items-center gap-3 ${isOnline ? 'bg-green-50 text-green-600' : 'bg-amber-50 text-amber-600'}`}>
+          {isOnline ? <Wifi className="w-5 h-5 shrink-0" /> : <WifiOff className="w-5 h-5 shrink-0" />}
+          <p className="text-xs font-black">
+            {isOnline ? 'Conectado' : 'Sem conexão'}
+            {waiting > 0 && ` · ${waiting} ${waiting === 1 ? 'ação aguardando' : 'ações aguardando'} envio`}
+          </p>
+        </div>
+
+        {rejectedActions.length > 0 && (
+          <div className="mb-6 p-4 rounded-2xl bg-red-50 text-red-600">
+            <p className="text-xs font-black mb-2">Recusadas pelo servidor</p>
+            <ul className="space-y-1 mb-2">
+              {rejectedActions.map(a => (
+                <li key={a.id} className="text-xs font-bold">{describeAction(a)}{a.lastError && ` · ${a.lastError}`}</li>
+              ))}
+            </ul>
+            <button onClick={onDiscardRejected} className="text-[10px] font-black uppercase flex items-center gap-1">
+              <Trash2 className="w-3.5 h-3.5" /> Descartar
+            </button>
+          </div>
+        )}
+
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Mapa de {areaName}</p>
+        <p className="text-xs font-bold text-slate-500 mb-2">Raio em volta do centro do mapa</p>
+        <div className="flex gap-2 mb-4">
+          {RADIUS_OPTIONS.map(r => (
+            <button key={r} onClick={() => setRadiusKm(r)} className={chipClass(radiusKm === r)}>{r} km</button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>Zoom</span>
+          <span className="flex items-center gap-2">
+            <select value={minZoom} onChange={(e) => { const z = Number(e.target.value); setMinZoom(z); if (z > maxZoom) setMaxZoom(z); }} className={selectClass}>
+              {ZOOM_LEVELS.map(z => <option key={z} value={z}>{z}</option>)}
+            </select>
+            <span className="text-slate-400 font-black">a</span>
+            <select value={maxZoom} onChange={(e) => { const z = Number(e.target.value); setMaxZoom(z); if (z < minZoom) setMinZoom(z); }} className={selectClass}>
+              {ZOOM_LEVELS.map(z => <option key={z} value={z}>{z}</option>)}
+            </select>
+          </span>
+        </div>
+
+        <p className={`mb-4 text-xs font-bold ${tooMany ? 'text-red-500' : 'text-slate-400'}`}>
+          {urls.length} blocos{tooMany && ` — limite de ${MAX_PRECACHE_TILES}, reduza o raio ou o zoom`}
+          {cachedCount !== null && ` · ${cachedCount} já salvos no aparelho`}
+        </p>
+
+        {progress && (
+          <div className={`h-2 rounded-full mb-4 overflow-hidden ${isDarkMode ? 'bg-white/5' : 'bg-slate-100'}`}>
+            <div className="h-full bg-blue-600 rounded-full transition-all duration-300" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+          </div>
+        )}
+
+        {error && <p className="mb-4 p-4 rounded-2xl bg-red-50 text-red-600 text-xs font-bold">{error}</p>}
+
+        <button onClick={download} disabled={isDownloading || tooMany || !isOnline} className="w-full mb-3 py-6 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white rounded-[2rem] font-black text-lg tracking-[0.1em] shadow-2xl shadow-blue-500/30 transition-all active:scale-95 flex items-center justify-center gap-3">
+          <Download className="w-6 h-6" />
+          {isDownloading && progress ? `BAIXANDO ${progress.done}/${progress.total}` : 'BAIXAR MAPA DA ÁREA'}
+        </button>
+        <button onClick={clear} disabled={isDownloading} className="w-full py-3 flex items-center justify-center gap-2 text-[10px] font-black uppercase text-red-500 disabled:opacity-40">
+          <Trash2 className="w-4 h-4" /> Apagar mapa salvo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineMapPanel;
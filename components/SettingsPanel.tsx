@@ -0,0 +1,319 @@
+
+import React, { useState } from 'react';
+import { Plus, Settings, Volume2, X, XCircle } from 'lucide-react';
+import { AppSettings } from '../services/settingsService';
+import { PROVIDER_OPTIONS, ProviderId } from '../services/providers';
+import { ROUTING_BACKENDS, RoutingBackend, TRAVEL_PROFILES, profileHasOwnRoutes } from '../services/routingService';
+import { GEMINI_VOICES, SpeechEngine, speechManager } from '../services/speechService';
+import { WAKE_WORD } from '../services/voiceCommands';
+import { TeamRole } from '../services/teamProtocol';
+import { TeamConnection } from '../services/teamService';
+import CacheSection from './CacheSection';
+
+interface SettingsPanelProps {
+  isDarkMode: boolean;
+  settings: AppSettings;
+  teamConnection: TeamConnection | null;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsSection: React.FC<{ title: string; isDarkMode: boolean; children: React.ReactNode }> = ({ title, isDarkMode, children }) => (
+  <div className={`p-5 rounded-[2rem] border ${isDarkMode ? 'bg-[#1a1a1a] border-white/5' : 'bg-slate-50 border-slate-100'}`}>
+    <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] mb-4">{title}</p>
+    <div className="space-y-4">{children}</div>
+  </div>
+);
+
+const NumberField: React.FC<{ label: string; suffix: string; value: number; min: number; max: number; step: number; isDarkMode: boolean; onChange: (value: number) => void }> = ({ label, suffix, value, min, max, step, isDarkMode, onChange }) => (
+  <label className="flex items-center justify-between gap-4">
+    <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{label}</span>
+    <span className="flex items-center gap-2">
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (!Number.isNaN(next)) onChange(Math.min(max, Math.max(min, next)));
+        }}
+        className={`w-20 rounded-xl border-none py-2 px-3 text-right font-black focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-white text-slate-700'}`}
+      />
+      <span className="text-[11px] font-black text-slate-400 uppercase w-6">{suffix}</span>
+    </span>
+  </label>
+);
+
+const TextField: React.FC<{ label: string; value: string; type?: 'url' | 'text'; placeholder?: string; isDarkMode: boolean; onChange: (value: string) => void }> = ({ label, value, type = 'url', placeholder, isDarkMode, onChange }) => (
+  <label className="block">
+    <span className={`block text-sm font-bold mb-2 ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{label}</span>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(type === 'url' ? e.target.value.trim() : e.target.value)}
+      className={`w-full rounded-xl border-none py-2 px-3 text-sm font-bold focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-white text-slate-700'}`}
+    />
+  </label>
+);
+
+const ToggleField: React.FC<{ label: string; checked: boolean; isDarkMode: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, isDarkMode, onChange }) => (
+  <label className="flex items-center justify-between gap-4 cursor-pointer">
+    <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{label}</span>
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="w-5 h-5 rounded text-blue-600 focus:ring-blue-500" />
+  </label>
+);
+
+const ListField: React.FC<{ values: string[]; placeholder: string; isDarkMode: boolean; onChange: (values: string[]) => void }> = ({ values, placeholder, isDarkMode, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {values.map((value) => (
+          <span key={value} className={`pl-3 pr-1 py-1 rounded-xl text-xs font-black flex items-center gap-1 ${isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}>
+            {value}
+            <button onClick={() => onChange(values.filter(v => v !== value))} className="p-1 text-slate-400 hover:text-red-500">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          className={`flex-1 rounded-xl border-none py-2 px-3 text-sm font-bold focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-white text-slate-700'}`}
+        />
+        <button onClick={add} className="p-2 bg-blue-600 text-white rounded-xl active:scale-90">
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SPEECH_ENGINES: { id: SpeechEngine; label: string }[] = [
+  { id: 'gemini', label: 'Gemini (online)' },
+  { id: 'browser', label: 'Voz do aparelho (offline)' },
+];
+
+const TEAM_ROLES: { id: TeamRole; label: string }[] = [
+  { id: 'agent', label: 'Agente' },
+  { id: 'supervisor', label: 'Supervisor' },
+];
+
+const TEAM_CONNECTION_LABELS: Record<TeamConnection, string> = {
+  connecting: 'Conectando...',
+  websocket: 'Conectado ao vivo',
+  polling: 'Conectado por consulta periódica',
+  offline: 'Servidor indisponível, tentando de novo',
+  rejected: 'Código da equipe recusado pelo servidor',
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isDarkMode, settings, teamConnection, onChange, onClose }) => {
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => onChange({ ...settings, [key]: value });
+
+  // Troca também o endereço se ele ainda era o padrão do outro servidor
+  const selectBackend = (backend: RoutingBackend) => {
+    const isDefaultUrl = !settings.routingUrl || ROUTING_BACKENDS.some(b => b.placeholder === settings.routingUrl);
+    const routingUrl = isDefaultUrl ? ROUTING_BACKENDS.find(b => b.id === backend)!.placeholder : settings.routingUrl;
+    onChange({ ...settings, routingBackend: backend, routingUrl });
+  };
+
+  return (
+    <div className="absolute inset-0 z-[190] bg-black/40 backdrop-blur-md flex items-end md:items-center justify-center" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-[94%] max-w-lg mb-10 md:mb-0 max-h-[85dvh] overflow-y-auto p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-blue-600 animate-in slide-in-from-bottom-10 duration-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-blue-600 p-3 rounded-2xl shadow-xl shadow-blue-500/30">
+              <Settings className="text-white w-7 h-7" />
+            </div>
+            <h2 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Configurações</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+            <XCircle className="w-10 h-10" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <SettingsSection title="Check-in automático" isDarkMode={isDarkMode}>
+            <NumberField label="Raio de chegada" suffix="m" value={settings.geofenceRadiusM} min={10} max={300} step={5} isDarkMode={isDarkMode} onChange={(v) => update('geofenceRadiusM', v)} />
+            <NumberField label="Tempo de permanência" suffix="s" value={settings.geofenceDwellSec} min={0} max={900} step={15} isDarkMode={isDarkMode} onChange={(v) => update('geofenceDwellSec', v)} />
+          </SettingsSection>
+
+          <SettingsSection title="Turno" isDarkMode={isDarkMode}>
+            <NumberField label="Parado após" suffix="min" value={settings.idleAfterMin} min={1} max={60} step={1} isDarkMode={isDarkMode} onChange={(v) => update('idleAfterMin', v)} />
+          </SettingsSection>
+
+          <SettingsSection title="Rotas" isDarkMode={isDarkMode}>
+            <div className="flex gap-2">
+              {TRAVEL_PROFILES.map((profile) => (
+                <button
+                  key={profile.id}
+                  onClick={() => update('travelProfile', profile.id)}
+                  className={`flex-1 py-3 px-2 rounded-xl text-xs font-black transition-all ${settings.travelProfile === profile.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}
+                >
+                  {profile.label}
+                </button>
+              ))}
+            </div>
+            {TRAVEL_PROFILES.map((profile) => (
+              <NumberField
+                key={profile.id}
+                label={`Velocidade ${profile.label.toLowerCase()}`}
+                suffix="×"
+                value={settings.speedFactors[profile.id]}
+                min={0.5}
+                max={2}
+                step={0.1}
+                isDarkMode={isDarkMode}
+                onChange={(v) => update('speedFactors', { ...settings.speedFactors, [profile.id]: v })}
+              />
+            ))}
+            <div className="flex gap-2">
+              {ROUTING_BACKENDS.map((backend) => (
+                <button
+                  key={backend.id}
+                  onClick={() => selectBackend(backend.id)}
+                  className={`flex-1 py-3 px-2 rounded-xl text-xs font-black transition-all ${settings.routingBackend === backend.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}
+                >
+                  {backend.label}
+                </button>
+              ))}
+            </div>
+            <TextField
+              label="Servidor de rotas"
+              value={settings.routingUrl}
+              placeholder={ROUTING_BACKENDS.find(b => b.id === settings.routingBackend)?.placeholder}
+              isDarkMode={isDarkMode}
+              onChange={(v) => update('routingUrl', v)}
+            />
+            <p className="text-xs font-bold text-slate-400">
+              {settings.routingBackend === 'osrm'
+                ? 'O OSRM calcula só o perfil carregado no servidor. Para um servidor por perfil, use {profile} no endereço (vira car ou foot; moto usa o de carro).'
+                : 'O Valhalla calcula carro, moto e a pé no mesmo servidor.'}
+              {' '}Sem resposta do servidor, a rota vira uma estimativa em linha reta.
+            </p>
+            {!profileHasOwnRoutes(settings, settings.travelProfile) && (
+              <p className="text-xs font-bold text-amber-600">
+                Este servidor não tem rotas próprias para {TRAVEL_PROFILES.find(p => p.id === settings.travelProfile)?.label.toLowerCase()}: o trajeto é o de carro e só o fator de velocidade muda o tempo.
+              </p>
+            )}
+          </SettingsSection>
+
+          <SettingsSection title="Fonte de dados" isDarkMode={isDarkMode}>
+            <div className="grid gap-2">
+              {PROVIDER_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => update('provider', option.id as ProviderId)}
+                  className={`py-3 px-4 rounded-xl text-left text-sm font-black transition-all ${settings.provider === option.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {settings.provider === 'nominatim' && (
+              <>
+                <TextField label="Servidor Nominatim" value={settings.nominatimUrl} placeholder="https://nominatim.openstreetmap.org" isDarkMode={isDarkMode} onChange={(v) => update('nominatimUrl', v)} />
+                <TextField label="Servidor Overpass" value={settings.overpassUrl} placeholder="https://overpass-api.de/api/interpreter" isDarkMode={isDarkMode} onChange={(v) => update('overpassUrl', v)} />
+              </>
+            )}
+          </SettingsSection>
+
+          <SettingsSection title="Voz" isDarkMode={isDarkMode}>
+            <ToggleField label="Silenciar avisos" checked={settings.speechMuted} isDarkMode={isDarkMode} onChange={(v) => update('speechMuted', v)} />
+            <NumberField label="Volume" suffix="%" value={Math.round(settings.speechVolume * 100)} min={0} max={100} step={10} isDarkMode={isDarkMode} onChange={(v) => update('speechVolume', v / 100)} />
+            <div className="flex gap-2">
+              {SPEECH_ENGINES.map((engine) => (
+                <button
+                  key={engine.id}
+                  onClick={() => update('speechEngine', engine.id)}
+                  className={`flex-1 py-3 px-2 rounded-xl text-xs font-black transition-all ${settings.speechEngine === engine.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}
+                >
+                  {engine.label}
+                </button>
+              ))}
+            </div>
+            {settings.speechEngine === 'gemini' && (
+              <label className="flex items-center justify-between gap-4">
+                <span className={`text-sm font-bold ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>Voz do Gemini</span>
+                <select
+                  value={settings.speechVoice}
+                  onChange={(e) => update('speechVoice', e.target.value)}
+                  className={`rounded-xl border-none py-2 px-3 text-sm font-black focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-white text-slate-700'}`}
+                >
+                  {GEMINI_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                </select>
+              </label>
+            )}
+            <button
+              onClick={() => speechManager.speak('Teste de voz. Rotas Bets pronto para o turno.', 'alert')}
+              disabled={settings.speechMuted}
+              className={`w-full py-3 rounded-xl text-sm font-black flex items-center justify-center gap-2 disabled:opacity-40 ${isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}
+            >
+              <Volume2 className="w-4 h-4" /> Testar voz
+            </button>
+          </SettingsSection>
+
+          <SettingsSection title="Comandos de voz" isDarkMode={isDarkMode}>
+            <ToggleField label="Escuta contínua (mãos livres)" checked={settings.voiceHandsFree} isDarkMode={isDarkMode} onChange={(v) => update('voiceHandsFree', v)} />
+            <p className="text-xs font-bold text-slate-400">
+              {settings.voiceHandsFree ? `Diga "${WAKE_WORD}" antes do comando.` : 'Toque no microfone e fale.'} Comandos: próxima parada, confirmar, falhou, parar rastreio, onde estou.
+            </p>
+          </SettingsSection>
+
+          <SettingsSection title="Motivos de falha" isDarkMode={isDarkMode}>
+            <ListField values={settings.failureReasons} placeholder="Novo motivo..." isDarkMode={isDarkMode} onChange={(v) => update('failureReasons', v)} />
+          </SettingsSection>
+
+          <SettingsSection title="Equipe" isDarkMode={isDarkMode}>
+            <ToggleField label="Modo equipe" checked={settings.teamEnabled} isDarkMode={isDarkMode} onChange={(v) => update('teamEnabled', v)} />
+            {settings.teamEnabled && (
+              <>
+                <TextField label="Seu nome" type="text" value={settings.teamMemberName} placeholder="Nome visto pelo supervisor" isDarkMode={isDarkMode} onChange={(v) => update('teamMemberName', v)} />
+                <div className="flex gap-2">
+                  {TEAM_ROLES.map((role) => (
+                    <button
+                      key={role.id}
+                      onClick={() => update('teamRole', role.id)}
+                      className={`flex-1 py-3 px-2 rounded-xl text-xs font-black transition-all ${settings.teamRole === role.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : isDarkMode ? 'bg-white/5 text-white/70' : 'bg-white text-slate-600'}`}
+                    >
+                      {role.label}
+                    </button>
+                  ))}
+                </div>
+                <TextField label="Servidor da equipe" value={settings.teamServerUrl} placeholder="Mesmo endereço do app" isDarkMode={isDarkMode} onChange={(v) => update('teamServerUrl', v)} />
+                <TextField label={settings.teamRole === 'supervisor' ? 'Código do supervisor' : 'Código da equipe'} type="text" value={settings.teamToken} placeholder="Definido no servidor" isDarkMode={isDarkMode} onChange={(v) => update('teamToken', v.trim())} />
+                <p className="text-xs font-bold text-slate-400">
+                  {!settings.teamMemberName.trim() ? 'Informe seu nome para conectar.' : !settings.teamToken ? 'Informe o código da equipe para conectar.' : teamConnection ? TEAM_CONNECTION_LABELS[teamConnection] : 'Desconectado'}
+                </p>
+              </>
+            )}
+          </SettingsSection>
+
+          <SettingsSection title="Cache de consultas" isDarkMode={isDarkMode}>
+            <CacheSection isDarkMode={isDarkMode} />
+          </SettingsSection>
+
+          <SettingsSection title="Desenvolvedor" isDarkMode={isDarkMode}>
+            <ToggleField label="Painel de GPS simulado" checked={settings.developerMode} isDarkMode={isDarkMode} onChange={(v) => update('developerMode', v)} />
+          </SettingsSection>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,133 @@
+
+import React from 'react';
+import { History, Pause, Play, XCircle } from 'lucide-react';
+import { PlaybackState } from '../services/locationSources';
+import { ReplayEvent } from '../services/replayService';
+
+interface ShiftReplayProps {
+  isDarkMode: boolean;
+  title: string;
+  /** Real time of the first fix; null when the track has no timestamps. */
+  startedAt: number | null;
+  playback: PlaybackState;
+  events: ReplayEvent[];
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (positionMs: number) => void;
+  onSpeed: (speed: number) => void;
+  onEvent: (event: ReplayEvent) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [10, 60, 300, 900];
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatElapsed = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Replay bar for a saved shift: timeline with the shift's events, play/pause
+ * and speed. Events are drawn where they happened on the timeline; stays and
+ * breaks as bars, visits as dots.
+ */
+const ShiftReplay: React.FC<ShiftReplayProps> = ({ isDarkMode, title, startedAt, playback, events, onPlay, onPause, onSeek, onSpeed, onEvent, onClose }) => {
+  const { durationMs, positionMs } = playback;
+  const percent = (at: number) => startedAt === null || durationMs === 0 ? 0 : ((at - startedAt) / durationMs) * 100;
+  const current = startedAt === null ? null : startedAt + positionMs;
+  const activeEvents = current === null ? [] : events.filter(e => e.startAt <= current && current <= (e.endAt ?? e.startAt + 60000));
+
+  return (
+    <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[115] w-[94%] max-w-2xl animate-in slide-in-from-bottom-4 duration-300">
+      <div className={`p-6 rounded-[2.5rem] shadow-3xl border-t-8 border-slate-900 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <History className={`w-6 h-6 ${isDarkMode ? 'text-white' : 'text-slate-900'}`} />
+            <div>
+              <h3 className={`text-lg font-black leading-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Replay do turno</h3>
+              <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{title}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-300 hover:text-slate-500">
+            <XCircle className="w-7 h-7" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button onClick={playback.playing ? onPause : onPlay} className="p-3 bg-slate-900 text-white rounded-xl active:scale-90">
+            {playback.playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <div className="flex-1">
+            {/* Faixa de eventos alinhada com o controle deslizante */}
+            <div className={`relative h-4 mb-1 rounded-full ${isDarkMode ? 'bg-white/5' : 'bg-slate-50'}`}>
+              {events.map((event) => (
+                <button
+                  key={event.id}
+                  title={`${formatTime(event.startAt)} · ${event.label}`}
+                  onClick={() => onEvent(event)}
+                  className={`absolute top-0.5 h-3 hover:ring-2 hover:ring-blue-300 ${event.endAt === undefined ? 'w-3 -ml-1.5 rounded-full border-2 border-white' : 'rounded-full opacity-80'}`}
+                  style={{
+                    left: `${percent(event.startAt)}%`,
+                    width: event.endAt === undefined ? undefined : `max(${percent(event.endAt) - percent(event.startAt)}%, 6px)`,
+                    backgroundColor: event.color,
+                  }}
+                />
+              ))}
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={durationMs}
+              step={1000}
+              value={positionMs}
+              onChange={(e) => onSeek(Number(e.target.value))}
+              className="w-full accent-slate-900"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mt-2 mb-3 text-[11px] font-black text-slate-400">
+          <span>{startedAt === null ? 'Trilha sem horários' : formatTime(startedAt)}</span>
+          <span className={isDarkMode ? 'text-white' : 'text-slate-700'}>
+            {current === null ? formatElapsed(positionMs) : formatTime(current)}
+          </span>
+          <span>{startedAt === null ? formatElapsed(durationMs) : formatTime(startedAt + durationMs)}</span>
+        </div>
+
+        {activeEvents.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-2">
+            {activeEvents.map(e => (
+              <span key={e.id} className="px-2 py-1 rounded-lg text-[10px] font-black uppercase text-white" style={{ backgroundColor: e.color }}>{e.label}</span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button key={s} onClick={() => onSpeed(s)} className={`flex-1 py-2 rounded-lg text-[11px] font-black ${playback.speed === s ? 'bg-slate-900 text-white' : isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-50 text-slate-500'}`}>
+              {s}×
+            </button>
+          ))}
+        </div>
+
+        {events.length > 0 && (
+          <ol className="mt-4 max-h-32 overflow-y-auto space-y-1">
+            {events.map(event => (
+              <li key={event.id}>
+                <button onClick={() => onEvent(event)} className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-xs font-bold transition-colors ${isDarkMode ? 'text-white/70 hover:bg-white/5' : 'text-slate-600 hover:bg-slate-50'}`}>
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: event.color }} />
+                  <span className="font-black text-slate-400">{formatTime(event.startAt)}</span>
+                  <span className="truncate">{event.label}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftReplay;
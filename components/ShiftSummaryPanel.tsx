@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { ClipboardCheck, Coffee, Gauge, MapPinned, Timer, Trophy, XCircle } from 'lucide-react';
+import { ShiftSummary } from '../services/shiftService';
+
+interface ShiftSummaryPanelProps {
+  isDarkMode: boolean;
+  summary: ShiftSummary;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatSpan = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}min` : `${minutes} min`;
+};
+
+const ShiftSummaryPanel: React.FC<ShiftSummaryPanelProps> = ({ isDarkMode, summary, onClose }) => {
+  const stats = [
+    { icon: MapPinned, label: 'Distância', value: `${summary.distanceKm.toFixed(1)} km` },
+    { icon: Timer, label: 'Tempo ativo', value: formatSpan(summary.workingMs) },
+    { icon: Gauge, label: 'Tempo parado', value: formatSpan(summary.idleMs) },
+    { icon: Coffee, label: 'Pausas', value: formatSpan(summary.breakMs) },
+    { icon: ClipboardCheck, label: 'Paradas visitadas', value: String(summary.stopsVisited) },
+    { icon: Trophy, label: 'Taxa de sucesso', value: summary.successRate === null ? '—' : `${Math.round(summary.successRate * 100)}%` },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-[190] bg-black/40 backdrop-blur-md flex items-end md:items-center justify-center" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-[94%] max-w-lg mb-10 md:mb-0 max-h-[85dvh] overflow-y-auto p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-green-500 animate-in slide-in-from-bottom-10 duration-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-green-500 p-3 rounded-2xl shadow-xl shadow-green-500/30">
+              <Trophy className="text-white w-7 h-7" />
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-green-500 uppercase tracking-[0.2em]">
+                {formatTime(summary.startedAt)} – {formatTime(summary.finishedAt)}
+              </p>
+              <h2 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Resumo do turno</h2>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+            <XCircle className="w-10 h-10" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          {stats.map(({ icon: Icon, label, value }) => (
+            <div key={label} className={`p-4 rounded-2xl ${isDarkMode ? 'bg-white/5' : 'bg-slate-50'}`}>
+              <Icon className="w-5 h-5 text-blue-500 mb-2" />
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+              <p className={`text-xl font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{value}</p>
+            </div>
+          ))}
+        </div>
+
+        {summary.stopsVisited > 0 && (
+          <p className="mb-6 text-xs font-bold text-slate-500 text-center">
+            {summary.successes} de {summary.stopsVisited} visitas com sucesso.
+          </p>
+        )}
+
+        <button onClick={onClose} className="w-full py-6 bg-blue-600 hover:bg-blue-700 text-white rounded-[2rem] font-black text-lg tracking-[0.1em] shadow-2xl shadow-blue-500/30 transition-all active:scale-95">
+          FECHAR
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftSummaryPanel;
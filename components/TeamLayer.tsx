@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { Marker, Polyline, Popup } from 'react-leaflet';
+import L from 'leaflet';
+import { ShiftState } from '../types';
+import { AgentState } from '../services/teamProtocol';
+import { SHIFT_STATE_LABELS } from '../services/shiftService';
+
+interface TeamLayerProps {
+  agents: AgentState[];
+}
+
+export const SHIFT_STATE_COLORS: Record<ShiftState, string> = {
+  notStarted: '#94a3b8',
+  working: '#22c55e',
+  onBreak: '#64748b',
+  idle: '#f59e0b',
+  finished: '#94a3b8',
+};
+
+const initials = (name: string) => name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('');
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const agentIcon = (agent: AgentState) => L.divIcon({
+  html: `<div style="background-color: ${SHIFT_STATE_COLORS[agent.shiftState]}; width: 34px; height: 34px; border-radius: 50%; border: 3px solid white; box-shadow: 0 4px 10px rgba(0,0,0,0.3); color: white; font-size: 12px; font-weight: 900; display: flex; align-items: center; justify-content: center;">${escapeHtml(initials(agent.name))}</div>`,
+  className: 'custom-div-icon',
+  iconSize: [34, 34],
+  iconAnchor: [17, 17],
+});
+
+const formatAgo = (ts: number) => {
+  const minutes = Math.floor((Date.now() - ts) / 60000);
+  return minutes < 1 ? 'agora' : `há ${minutes} min`;
+};
+
+/**
+ * Supervisor layer: every agent's marker, recent trail and today's score.
+ */
+const TeamLayer: React.FC<TeamLayerProps> = ({ agents }) => (
+  <>
+    {agents.filter(a => a.position).map(agent => (
+      <React.Fragment key={agent.id}>
+        {agent.trail.length > 1 && (
+          <Polyline positions={agent.trail.map(p => [p.location.lat, p.location.lng])} color={SHIFT_STATE_COLORS[agent.shiftState]} weight={5} opacity={0.6} lineCap="round" />
+        )}
+        <Marker position={[agent.position!.lat, agent.position!.lng]} icon={agentIcon(agent)}>
+          <Popup>
+            <div className="p-1 min-w-[160px]">
+              <p className="font-black text-slate-800 text-base">{agent.name}</p>
+              <p className="text-[11px] font-black uppercase" style={{ color: SHIFT_STATE_COLORS[agent.shiftState] }}>{SHIFT_STATE_LABELS[agent.shiftState]}</p>
+              <p className="text-xs font-bold text-slate-500 mt-2">
+                {agent.visitedToday} visitas hoje · {agent.successesToday} com sucesso
+              </p>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">Atualizado {formatAgo(agent.updatedAt)}</p>
+            </div>
+          </Popup>
+        </Marker>
+      </React.Fragment>
+    ))}
+  </>
+);
+
+export default TeamLayer;
@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { Radio } from 'lucide-react';
+import { AgentState } from '../services/teamProtocol';
+import { TeamConnection } from '../services/teamService';
+import { SHIFT_STATE_LABELS } from '../services/shiftService';
+import { SHIFT_STATE_COLORS } from './TeamLayer';
+
+interface TeamRosterProps {
+  isDarkMode: boolean;
+  agents: AgentState[];
+  connection: TeamConnection | null;
+  onSelect: (agent: AgentState) => void;
+}
+
+const CONNECTION_LABELS: Record<TeamConnection, string> = {
+  connecting: 'Conectando...',
+  websocket: 'Ao vivo',
+  polling: 'Atualizando a cada 5 s',
+  offline: 'Servidor indisponível',
+  rejected: 'Código recusado',
+};
+
+const TeamRoster: React.FC<TeamRosterProps> = ({ isDarkMode, agents, connection, onSelect }) => {
+  const sorted = [...agents].sort((a, b) => a.name.localeCompare(b.name));
+  const visited = agents.reduce((sum, a) => sum + a.visitedToday, 0);
+  const successes = agents.reduce((sum, a) => sum + a.successesToday, 0);
+
+  return (
+    <div className={`p-5 rounded-[2rem] border mb-6 ${isDarkMode ? 'bg-[#2d2d2d] border-white/5' : 'bg-slate-50 border-slate-100'}`}>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Equipe</p>
+        <span className={`flex items-center gap-1 text-[10px] font-black uppercase ${connection === 'websocket' ? 'text-green-500' : connection === 'offline' || connection === 'rejected' ? 'text-red-500' : 'text-amber-500'}`}>
+          <Radio className="w-3 h-3" /> {connection ? CONNECTION_LABELS[connection] : 'Desligado'}
+        </span>
+      </div>
+      {sorted.length === 0 && <p className="text-xs font-bold text-slate-400">Nenhum agente conectado.</p>}
+      <div className="space-y-2">
+        {sorted.map(agent => (
+          <button
+            key={agent.id}
+            onClick={() => onSelect(agent)}
+            disabled={!agent.position}
+            className={`w-full p-3 rounded-xl flex items-center gap-3 text-left transition-all disabled:opacity-50 ${isDarkMode ? 'bg-white/5' : 'bg-white'}`}
+          >
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: SHIFT_STATE_COLORS[agent.shiftState] }} />
+            <span className="flex-1 overflow-hidden">
+              <span className={`block text-sm font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-700'}`}>{agent.name}</span>
+              <span className="block text-[10px] font-black text-slate-400 uppercase">{SHIFT_STATE_LABELS[agent.shiftState]}</span>
+            </span>
+            <span className="text-xs font-black text-slate-500 shrink-0">{agent.successesToday}/{agent.visitedToday}</span>
+          </button>
+        ))}
+      </div>
+      {visited > 0 && (
+        <p className="mt-4 text-xs font-bold text-slate-500">
+          Hoje: {visited} visitas, {Math.round((successes / visited) * 100)}% com sucesso.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TeamRoster;
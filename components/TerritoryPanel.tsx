@@ -0,0 +1,125 @@
+
+import React, { useMemo, useState } from 'react';
+import { LandPlot, Pin, Split, Trash2, UserPlus, X, XCircle } from 'lucide-react';
+import { BusinessPoint, District, TerritoryPlan } from '../types';
+import { buildTerritoryPlan, territoryPoints } from '../services/territoryService';
+
+interface TerritoryPanelProps {
+  isDarkMode: boolean;
+  cityName: string;
+  businesses: BusinessPoint[];
+  districts: District[];
+  plan: TerritoryPlan | null;
+  /** Names offered when there is no plan yet, e.g. the agents online. */
+  suggestedAgents: string[];
+  /** Whether saving also sends the plan to the team. */
+  isShared: boolean;
+  onSave: (plan: TerritoryPlan) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const TerritoryPanel: React.FC<TerritoryPanelProps> = ({ isDarkMode, cityName, businesses, districts, plan, suggestedAgents, isShared, onSave, onClear, onClose }) => {
+  const [agentNames, setAgentNames] = useState<string[]>(() => plan ? plan.territories.map(t => t.agentName) : suggestedAgents);
+  const [newName, setNewName] = useState('');
+  const [preview, setPreview] = useState<TerritoryPlan | null>(plan);
+
+  const points = useMemo(() => territoryPoints(businesses, districts), [businesses, districts]);
+  const weightById = useMemo(() => new Map(points.map(p => [p.id, p.weight])), [points]);
+  const districtIds = useMemo(() => new Set(districts.map(d => d.id)), [districts]);
+  const pins = plan?.pins ?? {};
+  const pinCount = Object.keys(pins).length;
+  const unassigned = preview ? points.filter(p => !preview.territories.some(t => t.pointIds.includes(p.id))).length : 0;
+
+  const addName = () => {
+    const name = newName.trim();
+    if (!name || agentNames.some(n => n.toLowerCase() === name.toLowerCase())) return;
+    setAgentNames(prev => [...prev, name]);
+    setNewName('');
+  };
+
+  const removeName = (name: string) => setAgentNames(prev => prev.filter(n => n !== name));
+
+  const split = () => setPreview(buildTerritoryPlan(cityName, points, agentNames, pins));
+
+  const inputClass = `flex-1 rounded-xl border-none py-3 px-4 text-sm font-bold focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white' : 'bg-slate-50 text-slate-700'}`;
+
+  return (
+    <div className="absolute inset-0 z-[190] bg-black/40 backdrop-blur-md flex items-end md:items-center justify-center" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-[94%] max-w-lg mb-10 md:mb-0 max-h-[85dvh] overflow-y-auto p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 border-violet-500 animate-in slide-in-from-bottom-10 duration-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-violet-500 p-3 rounded-2xl shadow-xl shadow-violet-500/30">
+              <LandPlot className="text-white w-7 h-7" />
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-violet-500 uppercase tracking-[0.2em]">{cityName}</p>
+              <h2 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Territórios</h2>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+            <XCircle className="w-10 h-10" />
+          </button>
+        </div>
+
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Agentes</p>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {agentNames.length === 0 && <p className="text-xs font-bold text-slate-400">Adicione ao menos um agente.</p>}
+          {agentNames.map(name => (
+            <span key={name} className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl text-xs font-black ${isDarkMode ? 'bg-white/5 text-white/80' : 'bg-slate-100 text-slate-600'}`}>
+              {name}
+              <button onClick={() => removeName(name)} className="p-1 text-slate-400 hover:text-red-500"><X className="w-3 h-3" /></button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2 mb-6">
+          <input value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addName()} placeholder="Nome do agente" className={inputClass} />
+          <button onClick={addName} className={`px-4 rounded-xl transition-all active:scale-95 ${isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}>
+            <UserPlus className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-xs font-bold text-slate-500">
+          {points.length} locais para dividir
+          {pinCount > 0 && <> · <Pin className="inline w-3 h-3" /> {pinCount} {pinCount === 1 ? 'fixado' : 'fixados'} em um agente</>}
+        </p>
+
+        <button onClick={split} disabled={agentNames.length === 0 || points.length === 0} className={`w-full mb-6 py-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40 flex items-center justify-center gap-3 ${isDarkMode ? 'bg-white/5 text-violet-400' : 'bg-violet-50 text-violet-600'}`}>
+          <Split className="w-5 h-5" /> {preview ? 'Dividir de novo' : 'Dividir cidade'}
+        </button>
+
+        {preview && (
+          <div className="space-y-2 mb-6">
+            {preview.territories.map(t => {
+              const bars = t.pointIds.filter(id => !districtIds.has(id)).length;
+              const areas = t.pointIds.length - bars;
+              const load = t.pointIds.reduce((sum, id) => sum + (weightById.get(id) ?? 0), 0);
+              return (
+                <div key={t.agentName} className={`p-3 rounded-xl flex items-center gap-3 ${isDarkMode ? 'bg-white/5' : 'bg-slate-50'}`}>
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: t.color }} />
+                  <span className={`flex-1 text-sm font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-700'}`}>{t.agentName}</span>
+                  <span className="text-[10px] font-black text-slate-400 uppercase shrink-0">{bars} pontos · {areas} distritos</span>
+                  <span className="text-xs font-black text-violet-500 shrink-0 w-10 text-right">{load}</span>
+                </div>
+              );
+            })}
+            {unassigned > 0 && (
+              <p className="text-xs font-bold text-amber-600">{unassigned} locais novos sem território. Divida de novo para incluí-los.</p>
+            )}
+          </div>
+        )}
+
+        <button onClick={() => preview && onSave(preview)} disabled={!preview || preview === plan} className="w-full mb-3 py-6 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white rounded-[2rem] font-black text-lg tracking-[0.1em] shadow-2xl shadow-blue-500/30 transition-all active:scale-95">
+          {isShared ? 'SALVAR E ENVIAR À EQUIPE' : 'SALVAR DIVISÃO'}
+        </button>
+        {plan && (
+          <button onClick={onClear} className="w-full py-3 flex items-center justify-center gap-2 text-[10px] font-black uppercase text-red-500">
+            <Trash2 className="w-4 h-4" /> Remover divisão
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TerritoryPanel;
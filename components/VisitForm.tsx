@@ -0,0 +1,137 @@
+
+import React, { useState } from 'react';
+import { Camera, CheckCircle2, ClipboardCheck, Trash2, XCircle } from 'lucide-react';
+import { VisitOutcome } from '../types';
+
+export interface VisitDetails {
+  failureReason?: string;
+  note?: string;
+  photo?: string;
+}
+
+interface VisitFormProps {
+  businessName: string;
+  initialOutcome: VisitOutcome;
+  failureReasons: string[];
+  isDarkMode: boolean;
+  onSubmit: (outcome: VisitOutcome, details: VisitDetails) => void;
+  onClose: () => void;
+}
+
+const PHOTO_MAX_SIZE = 1024;
+
+// Reduz a foto da câmera para não estourar o armazenamento local
+function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.75));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Não foi possível ler a foto.'));
+    };
+    img.src = url;
+  });
+}
+
+const VisitForm: React.FC<VisitFormProps> = ({ businessName, initialOutcome, failureReasons, isDarkMode, onSubmit, onClose }) => {
+  const [outcome, setOutcome] = useState<VisitOutcome>(initialOutcome);
+  const [failureReason, setFailureReason] = useState<string | undefined>(undefined);
+  const [note, setNote] = useState('');
+  const [photo, setPhoto] = useState<string | undefined>(undefined);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setPhoto(await readPhoto(file));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const submit = () => onSubmit(outcome, {
+    failureReason: outcome === 'failure' ? failureReason : undefined,
+    note: note.trim() || undefined,
+    photo,
+  });
+
+  return (
+    <div className="absolute inset-0 z-[190] bg-black/40 backdrop-blur-md flex items-end md:items-center justify-center" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className={`w-[94%] max-w-lg mb-10 md:mb-0 max-h-[85dvh] overflow-y-auto p-8 rounded-[3rem] shadow-[0_30px_100px_rgba(0,0,0,0.3)] border-t-8 ${outcome === 'success' ? 'border-green-500' : 'border-red-500'} animate-in slide-in-from-bottom-10 duration-500 ${isDarkMode ? 'bg-[#2d2d2d]' : 'bg-white'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4 overflow-hidden">
+            <div className="bg-blue-600 p-3 rounded-2xl shadow-xl shadow-blue-500/30 shrink-0">
+              <ClipboardCheck className="text-white w-7 h-7" />
+            </div>
+            <div className="overflow-hidden">
+              <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">Registrar visita</p>
+              <h2 className={`text-2xl font-black tracking-tight truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{businessName}</h2>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-500 transition-colors">
+            <XCircle className="w-10 h-10" />
+          </button>
+        </div>
+
+        <div className="flex gap-3 mb-6">
+          <button onClick={() => setOutcome('success')} className={`flex-1 py-4 rounded-2xl text-sm font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${outcome === 'success' ? 'bg-green-500 text-white shadow-lg shadow-green-500/30' : isDarkMode ? 'bg-white/5 text-white/40' : 'bg-slate-100 text-slate-400'}`}>
+            <CheckCircle2 className="w-5 h-5" /> OK
+          </button>
+          <button onClick={() => setOutcome('failure')} className={`flex-1 py-4 rounded-2xl text-sm font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${outcome === 'failure' ? 'bg-red-500 text-white shadow-lg shadow-red-500/30' : isDarkMode ? 'bg-white/5 text-white/40' : 'bg-slate-100 text-slate-400'}`}>
+            <XCircle className="w-5 h-5" /> ERRO
+          </button>
+        </div>
+
+        {outcome === 'failure' && (
+          <div className="mb-6">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Motivo</p>
+            <div className="flex flex-wrap gap-2">
+              {failureReasons.map((reason) => (
+                <button key={reason} onClick={() => setFailureReason(reason === failureReason ? undefined : reason)} className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${failureReason === reason ? 'bg-red-500 text-white' : isDarkMode ? 'bg-white/5 text-white/60' : 'bg-slate-100 text-slate-500'}`}>
+                  {reason}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Observações da visita..."
+          rows={3}
+          className={`w-full mb-4 rounded-2xl border-none p-4 text-sm font-bold resize-none focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-white/5 text-white placeholder:text-white/30' : 'bg-slate-50 text-slate-700 placeholder:text-slate-400'}`}
+        />
+
+        {photo ? (
+          <div className="relative mb-6">
+            <img src={photo} alt="Foto da visita" className="w-full h-40 object-cover rounded-2xl" />
+            <button onClick={() => setPhoto(undefined)} className="absolute top-2 right-2 p-2 bg-black/50 text-white rounded-full">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <label className={`mb-6 w-full py-4 rounded-2xl text-[11px] font-black uppercase tracking-widest flex items-center justify-center gap-3 cursor-pointer ${isDarkMode ? 'bg-white/5 text-blue-400' : 'bg-blue-50 text-blue-600'}`}>
+            <Camera className="w-5 h-5" /> Tirar foto
+            <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhoto} />
+          </label>
+        )}
+
+        <button onClick={submit} className="w-full py-6 bg-blue-600 hover:bg-blue-700 text-white rounded-[2rem] font-black text-xl tracking-[0.1em] shadow-2xl shadow-blue-500/30 transition-all active:scale-95">
+          SALVAR VISITA
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VisitForm;
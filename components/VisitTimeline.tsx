@@ -0,0 +1,35 @@
+
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { VisitRecord } from '../types';
+
+const formatDateTime = (ts: number) =>
+  `${new Date(ts).toLocaleDateString('pt-BR')} · ${new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+const VisitTimeline: React.FC<{ visits: VisitRecord[]; isDarkMode: boolean }> = ({ visits, isDarkMode }) => (
+  <div className="mb-6">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Histórico de visitas</p>
+    <ol className={`relative ml-2 border-l-2 space-y-4 ${isDarkMode ? 'border-white/10' : 'border-slate-100'}`}>
+      {visits.map((v) => (
+        <li key={v.id} className="pl-5 relative">
+          <span className={`absolute -left-[7px] top-1 w-3 h-3 rounded-full ${v.outcome === 'success' ? 'bg-green-500' : 'bg-red-500'}`} />
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-xs font-black ${isDarkMode ? 'text-white/80' : 'text-slate-600'}`}>{formatDateTime(v.timestamp)}</span>
+            <span className={`text-[10px] font-black uppercase ${v.outcome === 'success' ? 'text-green-500' : 'text-red-500'}`}>
+              {v.outcome === 'success' ? 'OK' : v.failureReason || 'ERRO'}
+            </span>
+          </div>
+          {v.note && <p className="text-xs font-medium text-slate-400 italic mt-1">"{v.note}"</p>}
+          {v.photo && <img src={v.photo} alt="Foto da visita" className="mt-2 h-20 rounded-xl object-cover" />}
+          {v.position && (
+            <p className="text-[10px] font-bold text-slate-400 mt-1 flex items-center gap-1">
+              <MapPin className="w-3 h-3" /> {v.position.lat.toFixed(5)}, {v.position.lng.toFixed(5)}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default VisitTimeline;
@@ -0,0 +1,101 @@
+
+// Service worker do Rotas Bets: mantém o app e os blocos do mapa disponíveis sem sinal.
+
+const TILE_CACHE = 'rotas-bets-tiles-v1';
+const APP_CACHE = 'rotas-bets-app-v1';
+
+const TILE_HOSTS = ['basemaps.cartocdn.com', 'tile.openstreetmap.org'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'unpkg.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+const PRECACHE_CONCURRENCY = 6;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(APP_CACHE).then((cache) => cache.add('/')).catch(() => {}).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== TILE_CACHE && k !== APP_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isTile = (url) => TILE_HOSTS.some((host) => url.hostname.endsWith(host));
+
+async function cacheFirst(cacheName, request) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request.mode === 'navigate' ? '/' : request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request.mode === 'navigate' ? '/' : request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isTile(url)) {
+    event.respondWith(cacheFirst(TILE_CACHE, request));
+  } else if (CDN_HOSTS.some((host) => url.hostname.endsWith(host))) {
+    event.respondWith(cacheFirst(APP_CACHE, request));
+  } else if (url.origin === self.location.origin && (request.mode === 'navigate' || url.pathname.startsWith('/assets/'))) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// Baixa uma lista de blocos em paralelo limitado, informando o progresso pela porta recebida
+async function precacheTiles(urls, port) {
+  const cache = await caches.open(TILE_CACHE);
+  let done = 0;
+  let failed = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { mode: 'cors' });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(url, response);
+        }
+      } catch {
+        failed++;
+      }
+      done++;
+      if (done % 10 === 0 || done === urls.length) port.postMessage({ type: 'progress', done, failed, total: urls.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: PRECACHE_CONCURRENCY }, worker));
+  port.postMessage({ type: 'done', done, failed, total: urls.length });
+}
+
+self.addEventListener('message', (event) => {
+  const port = event.ports[0];
+  const { type } = event.data || {};
+  if (!port) return;
+
+  if (type === 'precache-tiles') {
+    event.waitUntil(precacheTiles(event.data.urls || [], port));
+  } else if (type === 'tile-count') {
+    event.waitUntil(caches.open(TILE_CACHE).then((c) => c.keys()).then((keys) => port.postMessage({ type: 'count', count: keys.length })));
+  } else if (type === 'clear-tiles') {
+    event.waitUntil(caches.delete(TILE_CACHE).then(() => port.postMessage({ type: 'count', count: 0 })));
+  }
+});
@@ -0,0 +1,229 @@
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { GoogleGenAI, Modality } from '@google/genai';
+import { HttpError, coordinate, readBody, send, shortText } from './http';
+
+export interface GeminiProxyOptions {
+  apiKey: string;
+  /** Requests allowed per client per window. */
+  rateLimit?: number;
+  rateWindowMs?: number;
+  /** Value for `Access-Control-Allow-Origin`; omit when served same-origin. */
+  allowOrigin?: string;
+  /**
+   * Reverse proxies in front of this server whose `X-Forwarded-For` can be
+   * trusted. 0 (default) ignores the header, since any client can set it.
+   */
+  trustedProxies?: number;
+}
+
+type Handler = (body: any) => { key: string; ttlMs: number; run: () => Promise<unknown> };
+
+/** Path prefix the client calls; keep in sync with `services/geminiService.ts`. */
+export const PROXY_PREFIX = '/api/gemini';
+
+const TEXT_MODEL = "gemini-3-flash-preview";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const MAX_BODY_BYTES = 10 * 1024;
+const MAX_CACHE_ENTRIES = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_VOICE = 'Kore';
+
+const voiceName = (value: unknown) => {
+  if (value === undefined) return DEFAULT_VOICE;
+  if (typeof value !== 'string' || !/^[A-Za-z]{2,20}$/.test(value)) throw new HttpError(400, 'voz inválida');
+  return value;
+};
+
+/**
+ * Address the rate limit applies to. Behind `trustedProxies` proxies, each
+ * one appends the address it saw, so the client is that many entries from
+ * the right of `X-Forwarded-For`; anything further left is client-supplied.
+ */
+function clientId(req: IncomingMessage, trustedProxies: number): string {
+  const remote = req.socket.remoteAddress || 'unknown';
+  if (trustedProxies <= 0) return remote;
+  const header = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(header) ? header.join(',') : header ?? '').split(',').map(h => h.trim()).filter(Boolean);
+  return hops[Math.max(0, hops.length - trustedProxies)] || remote;
+}
+
+/**
+ * Fixed-window counter per client. Returns the seconds until the client may
+ * retry, or 0 when the request is allowed.
+ */
+function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (client: string, now = Date.now()): number => {
+    let entry = windows.get(client);
+    if (!entry || now - entry.start >= windowMs) {
+      entry = { start: now, count: 0 };
+      windows.set(client, entry);
+      if (windows.size > 10000) {
+        windows.forEach((w, id) => { if (now - w.start >= windowMs) windows.delete(id); });
+      }
+    }
+    entry.count++;
+    return entry.count > limit ? Math.ceil((entry.start + windowMs - now) / 1000) : 0;
+  };
+}
+
+/**
+ * Caches in-flight and settled responses, so identical requests made at the
+ * same time also reach Gemini only once. Failures are not kept.
+ */
+function createResponseCache() {
+  const entries = new Map<string, { expires: number; value: Promise<unknown> }>();
+
+  return {
+    get(key: string, now = Date.now()) {
+      const entry = entries.get(key);
+      if (entry && entry.expires > now) return entry.value;
+      entries.delete(key);
+      return undefined;
+    },
+    set(key: string, value: Promise<unknown>, ttlMs: number) {
+      if (entries.size >= MAX_CACHE_ENTRIES) entries.delete(entries.keys().next().value!);
+      entries.set(key, { expires: Date.now() + ttlMs, value });
+      value.catch(() => entries.delete(key));
+    },
+  };
+}
+
+/**
+ * Connect-style middleware exposing the Gemini calls the app needs. The API
+ * key stays on the server; requests outside `PROXY_PREFIX` fall through.
+ */
+export function createGeminiProxy({ apiKey, rateLimit = 30, rateWindowMs = 60000, allowOrigin, trustedProxies = 0 }: GeminiProxyOptions) {
+  let ai: GoogleGenAI | undefined;
+  const client = () => (ai ??= new GoogleGenAI({ apiKey }));
+  const limiter = createRateLimiter(rateLimit, rateWindowMs);
+  const cache = createResponseCache();
+
+  const generateJson = async (contents: string) => {
+    const response = await client().models.generateContent({
+      model: TEXT_MODEL,
+      contents,
+      config: { responseMimeType: "application/json" }
+    });
+    return { text: response.text ?? '' };
+  };
+
+  const handlers: Record<string, Handler> = {
+    '/city': (body) => {
+      const lat = coordinate(body.lat, 90);
+      const lng = coordinate(body.lng, 180);
+      const placeName = shortText(body.placeName, 200);
+      return {
+        key: `city:${lat.toFixed(4)},${lng.toFixed(4)}`,
+        ttlMs: 24 * HOUR_MS,
+        run: () => generateJson(`Location data [${lat}, ${lng}] (${placeName}). JSON: { "cityName": "X", "cityPopulation": "X habitantes", "bars": [{"name": "X", "lat": v, "lng": v, "address": "X"}], "districts": [{"name": "X", "lat": v, "lng": v, "description": "X", "population": "X habitantes"}] } Include local "sítios" and rural communities.`),
+      };
+    },
+    '/geocode': (body) => {
+      const query = shortText(body.query, 200);
+      return {
+        key: `geocode:${query.toLowerCase()}`,
+        ttlMs: 7 * 24 * HOUR_MS,
+        run: () => generateJson(`Coords of ${query} in Ceará. JSON: {"lat": v, "lng": v}`),
+      };
+    },
+    '/suggest': (body) => {
+      const query = shortText(body.query, 100);
+      return {
+        key: `suggest:${query.toLowerCase()}`,
+        ttlMs: 24 * HOUR_MS,
+        run: () => generateJson(`5 names of brazilian cities, districts or rural "sítios" near Tianguá/CE containing "${query}". JSON: {"s": ["Name"]}`),
+      };
+    },
+    '/tts': (body) => {
+      const text = shortText(body.text, 500);
+      const voice = voiceName(body.voice);
+      return {
+        key: `tts:${voice}:${text}`,
+        ttlMs: 24 * HOUR_MS,
+        run: async () => {
+          const response = await client().models.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text: `Diga: ${text}` }] }],
+            config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: {
+                voiceConfig: {
+                  prebuiltVoiceConfig: { voiceName: voice },
+                },
+              },
+            },
+          });
+          const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+          if (!audio) throw new HttpError(502, 'resposta sem áudio');
+          return { audio };
+        },
+      };
+    },
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const path = (req.url || '').split('?')[0];
+    if (!path.startsWith(PROXY_PREFIX)) {
+      if (next) next();
+      else send(res, 404, { error: 'não encontrado' });
+      return;
+    }
+
+    if (allowOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const handler = handlers[path.slice(PROXY_PREFIX.length)];
+    if (!handler) return send(res, 404, { error: 'não encontrado' });
+    if (req.method !== 'POST') return send(res, 405, { error: 'use POST' }, { Allow: 'POST' });
+
+    try {
+      const { key, ttlMs, run } = handler(await readBody(req, MAX_BODY_BYTES));
+      let result = cache.get(key);
+      if (result) {
+        res.setHeader('X-Cache', 'HIT');
+      } else {
+        const retryAfter = limiter(clientId(req, trustedProxies));
+        if (retryAfter > 0) return send(res, 429, { error: 'muitas requisições' }, { 'Retry-After': String(retryAfter) });
+        if (!apiKey) throw new HttpError(503, 'GEMINI_API_KEY não configurada no servidor');
+        result = run();
+        cache.set(key, result, ttlMs);
+        res.setHeader('X-Cache', 'MISS');
+      }
+      send(res, 200, await result);
+    } catch (error) {
+      if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+      console.error("Gemini Proxy Error:", error);
+      send(res, 502, { error: 'falha ao consultar o Gemini' });
+    }
+  };
+}
+
+/**
+ * Mounts the proxy on the Vite dev and preview servers, so `npm run dev` and
+ * `npm run preview` work without the standalone process.
+ */
+export function geminiProxyPlugin(options: GeminiProxyOptions): Plugin {
+  const proxy = createGeminiProxy(options);
+  return {
+    name: 'gemini-proxy',
+    configureServer(server) {
+      server.middlewares.use(proxy);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(proxy);
+    },
+  };
+}
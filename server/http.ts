@@ -0,0 +1,49 @@
+
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Utilitários compartilhados pelo proxy do Gemini e pelo servidor de equipe
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export const coordinate = (value: unknown, limit: number) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || Math.abs(value) > limit) throw new HttpError(400, 'coordenada inválida');
+  return value;
+};
+
+export const shortText = (value: unknown, max: number) => {
+  if (typeof value !== 'string' || !value.trim() || value.length > max) throw new HttpError(400, 'texto inválido');
+  return value.trim();
+};
+
+export function readBody(req: IncomingMessage, maxBytes: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'requisição muito grande'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'JSON inválido'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export function send(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(payload));
+}
@@ -0,0 +1,23 @@
+
+import { createServer } from 'http';
+import { loadEnv } from 'vite';
+import { createGeminiProxy, PROXY_PREFIX } from './geminiProxy';
+
+// Proxy avulso, para quando o app estático é servido por outro servidor
+const env = { ...loadEnv('production', process.cwd(), ''), ...process.env };
+const port = Number(env.PROXY_PORT) || 8787;
+
+const proxy = createGeminiProxy({
+  apiKey: env.GEMINI_API_KEY || '',
+  rateLimit: Number(env.PROXY_RATE_LIMIT) || undefined,
+  // Sem PROXY_ALLOW_ORIGIN, nenhum outro site gasta a cota pelo navegador dos visitantes
+  allowOrigin: env.PROXY_ALLOW_ORIGIN || undefined,
+  trustedProxies: Number(env.PROXY_TRUST_FORWARDED) || 0,
+});
+
+if (!env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY não definida: o proxy responderá 503.');
+if (!env.PROXY_ALLOW_ORIGIN) console.warn('PROXY_ALLOW_ORIGIN não definida: só páginas da mesma origem poderão chamar o proxy.');
+
+createServer(proxy).listen(port, () => {
+  console.log(`Proxy Gemini em http://localhost:${port}${PROXY_PREFIX}`);
+});
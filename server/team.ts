@@ -0,0 +1,24 @@
+
+import { createServer } from 'http';
+import { loadEnv } from 'vite';
+import { TEAM_PREFIX } from '../services/teamProtocol';
+import { attachTeamSocket, createTeamHandler, createTeamHub } from './teamHub';
+
+// Servidor de equipe avulso, para quando os aparelhos não usam o servidor do Vite
+const env = { ...loadEnv('production', process.cwd(), ''), ...process.env };
+const port = Number(env.TEAM_PORT) || 8788;
+
+if (!env.TEAM_TOKEN) {
+  console.error('Defina TEAM_TOKEN: sem o código da equipe, qualquer um veria as posições dos agentes.');
+  process.exit(1);
+}
+
+// Sem TEAM_ALLOW_ORIGIN, só o próprio servidor (ou um proxy na mesma origem) chama a API pelo navegador
+const options = { allowOrigin: env.TEAM_ALLOW_ORIGIN || undefined, token: env.TEAM_TOKEN, supervisorToken: env.TEAM_SUPERVISOR_TOKEN };
+const hub = createTeamHub();
+const server = createServer(createTeamHandler(hub, options));
+attachTeamSocket(server, hub, options);
+
+server.listen(port, () => {
+  console.log(`Servidor de equipe em http://localhost:${port}${TEAM_PREFIX} (WebSocket em ${TEAM_PREFIX}/ws)`);
+});
@@ -0,0 +1,335 @@
+
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Plugin } from 'vite';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ShiftState, Territory, TerritoryPlan } from '../types';
+import {
+  AgentState, BusinessUpdate, ClientMessage, ServerMessage, TeamMember, TeamRole,
+  TEAM_PREFIX, TRAIL_LENGTH, resolveBusinessUpdate,
+} from '../services/teamProtocol';
+import { HttpError, coordinate, readBody, send, shortText } from './http';
+
+export interface TeamServerOptions {
+  /** Value for `Access-Control-Allow-Origin`; omit when served same-origin. */
+  allowOrigin?: string;
+  /** Shared code every device must send. Without it the server refuses everyone. */
+  token?: string;
+  /** Separate code for supervisors; when empty, supervisors use `token`. */
+  supervisorToken?: string;
+}
+
+// Cabe o plano de territórios de uma cidade inteira
+const MAX_BODY_BYTES = 256 * 1024;
+const HEARTBEAT_MS = 30000;
+const SHIFT_STATES: ShiftState[] = ['notStarted', 'working', 'onBreak', 'idle', 'finished'];
+const STATUSES = ['pending', 'success', 'failure'];
+const MAX_TERRITORIES = 20;
+const MAX_TERRITORY_POINTS = 2000;
+const COLOR = /^#[0-9a-f]{6}$/i;
+const ROLES = ['agent', 'supervisor'] as const;
+
+const timestamp = (value: unknown) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new HttpError(400, 'data inválida');
+  return value;
+};
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]) => {
+  if (!options.includes(value as T)) throw new HttpError(400, 'valor inválido');
+  return value as T;
+};
+
+function parseMember(raw: any): TeamMember {
+  return { id: shortText(raw?.id, 64), name: shortText(raw?.name, 80) };
+}
+
+const digest = (text: string) => createHash('sha256').update(text).digest();
+
+/**
+ * Checks the code a device sent against the one for the role it claims.
+ * Returns the role, so identity is only trusted after this passes.
+ */
+function createTokenCheck({ token, supervisorToken }: TeamServerOptions) {
+  return (raw: unknown, role: unknown): TeamRole => {
+    const claimed = oneOf(role, ROLES);
+    const expected = claimed === 'supervisor' ? supervisorToken || token : token;
+    if (!expected) throw new HttpError(503, 'servidor de equipe sem TEAM_TOKEN configurado');
+    if (typeof raw !== 'string' || !timingSafeEqual(digest(raw), digest(expected))) throw new HttpError(401, 'código da equipe inválido');
+    return claimed;
+  };
+}
+
+/**
+ * Validates a message from a device. The sender's identity always comes
+ * from the connection, never from the payload.
+ */
+function parseMessage(raw: any, member: TeamMember): ClientMessage {
+  switch (raw?.type) {
+    case 'position':
+      return {
+        type: 'position',
+        point: {
+          timestamp: timestamp(raw.point?.timestamp),
+          location: { lat: coordinate(raw.point?.location?.lat, 90), lng: coordinate(raw.point?.location?.lng, 180) },
+        },
+        heading: raw.heading === null || raw.heading === undefined ? null : coordinate(raw.heading, 360),
+      };
+    case 'shift':
+      return { type: 'shift', state: oneOf(raw.state, SHIFT_STATES), at: timestamp(raw.at) };
+    case 'visit':
+      return {
+        type: 'visit',
+        update: {
+          businessId: shortText(raw.update?.businessId, 64),
+          businessName: shortText(raw.update?.businessName, 200),
+          status: oneOf(raw.update?.status, STATUSES) as BusinessUpdate['status'],
+          agentId: member.id,
+          agentName: member.name,
+          at: timestamp(raw.update?.at),
+        },
+      };
+    case 'territories':
+      return { type: 'territories', plan: parseTerritoryPlan(raw.plan) };
+    default:
+      throw new HttpError(400, 'mensagem desconhecida');
+  }
+}
+
+const list = (value: unknown, max: number) => {
+  if (!Array.isArray(value) || value.length > max) throw new HttpError(400, 'lista inválida');
+  return value;
+};
+
+function parseTerritoryPlan(raw: any): TerritoryPlan {
+  const territories: Territory[] = list(raw?.territories, MAX_TERRITORIES).map((t: any) => {
+    if (typeof t?.color !== 'string' || !COLOR.test(t.color)) throw new HttpError(400, 'cor inválida');
+    return {
+      agentName: shortText(t.agentName, 80),
+      color: t.color,
+      pointIds: list(t.pointIds, MAX_TERRITORY_POINTS).map((id: unknown) => shortText(id, 64)),
+    };
+  });
+  const pins: Record<string, string> = {};
+  if (typeof raw?.pins !== 'object' || raw.pins === null) throw new HttpError(400, 'fixações inválidas');
+  const pinned = Object.entries(raw.pins);
+  if (pinned.length > MAX_TERRITORY_POINTS) throw new HttpError(400, 'fixações inválidas');
+  pinned.forEach(([id, name]) => { pins[shortText(id, 64)] = shortText(name, 80); });
+  return { id: shortText(raw.id, 120), territories, pins, updatedAt: timestamp(raw.updatedAt) };
+}
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * In-memory state of the team: one entry per agent plus the winning update
+ * for each business. Every accepted change is pushed to subscribers.
+ */
+export function createTeamHub() {
+  const agents = new Map<string, Omit<AgentState, 'visitedToday' | 'successesToday'>>();
+  const businesses = new Map<string, BusinessUpdate>();
+  const territories = new Map<string, TerritoryPlan>();
+  const listeners = new Set<(message: ServerMessage) => void>();
+
+  const withProgress = (agent: Omit<AgentState, 'visitedToday' | 'successesToday'>): AgentState => {
+    const today = startOfToday();
+    let visitedToday = 0;
+    let successesToday = 0;
+    businesses.forEach((u) => {
+      if (u.agentId !== agent.id || u.at < today || u.status === 'pending') return;
+      visitedToday++;
+      if (u.status === 'success') successesToday++;
+    });
+    return { ...agent, visitedToday, successesToday };
+  };
+
+  const broadcast = (message: ServerMessage) => listeners.forEach(listener => listener(message));
+
+  const agentFor = (member: TeamMember) => {
+    let agent = agents.get(member.id);
+    if (!agent) {
+      agent = { ...member, position: null, heading: null, shiftState: 'notStarted', trail: [], updatedAt: Date.now() };
+      agents.set(member.id, agent);
+    }
+    agent.name = member.name;
+    return agent;
+  };
+
+  const receive = (member: TeamMember, role: TeamRole, message: ClientMessage) => {
+    if (message.type === 'hello') return;
+    if (message.type === 'territories') {
+      // Só o supervisor divide a cidade; um plano mais antigo não substitui o atual
+      if (role !== 'supervisor') return;
+      const current = territories.get(message.plan.id);
+      if (current && current.updatedAt > message.plan.updatedAt) return;
+      territories.set(message.plan.id, message.plan);
+      broadcast(message);
+      return;
+    }
+    if (message.type === 'visit') {
+      const current = businesses.get(message.update.businessId);
+      if (resolveBusinessUpdate(current, message.update) !== message.update) return;
+      businesses.set(message.update.businessId, message.update);
+      broadcast({ type: 'business', update: message.update });
+      // O placar do agente que perdeu o ponto também muda
+      new Set([message.update.agentId, current?.agentId]).forEach((id) => {
+        const agent = id ? agents.get(id) : undefined;
+        if (agent) broadcast({ type: 'agent', agent: withProgress(agent) });
+      });
+      return;
+    }
+    // Supervisores acompanham, mas não aparecem no mapa
+    if (role !== 'agent') return;
+    const agent = agentFor(member);
+    if (message.type === 'position') {
+      agent.position = message.point.location;
+      agent.heading = message.heading;
+      agent.trail = [...agent.trail, message.point].slice(-TRAIL_LENGTH);
+    } else {
+      // Turno novo começa com o rastro limpo
+      if (message.state === 'working' && (agent.shiftState === 'notStarted' || agent.shiftState === 'finished')) agent.trail = [];
+      agent.shiftState = message.state;
+    }
+    agent.updatedAt = Date.now();
+    broadcast({ type: 'agent', agent: withProgress(agent) });
+  };
+
+  return {
+    join(member: TeamMember, role: TeamRole) {
+      if (role === 'agent') agentFor(member);
+    },
+    receive,
+    snapshot: (): ServerMessage => ({
+      type: 'snapshot',
+      agents: [...agents.values()].map(withProgress),
+      businesses: [...businesses.values()],
+      territories: [...territories.values()],
+    }),
+    subscribe(listener: (message: ServerMessage) => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+export type TeamHub = ReturnType<typeof createTeamHub>;
+
+/**
+ * HTTP fallback for devices that cannot keep a WebSocket open: each poll
+ * delivers the queued messages and returns the full snapshot.
+ */
+export function createTeamHandler(hub: TeamHub, options: TeamServerOptions = {}) {
+  const { allowOrigin } = options;
+  const checkToken = createTokenCheck(options);
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const path = (req.url || '').split('?')[0];
+    if (!path.startsWith(TEAM_PREFIX)) {
+      if (next) next();
+      else send(res, 404, { error: 'não encontrado' });
+      return;
+    }
+
+    if (allowOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (path !== `${TEAM_PREFIX}/poll`) return send(res, 404, { error: 'não encontrado' });
+    if (req.method !== 'POST') return send(res, 405, { error: 'use POST' }, { Allow: 'POST' });
+
+    try {
+      const body = await readBody(req, MAX_BODY_BYTES);
+      const role = checkToken(body.token, body.role);
+      const member = parseMember(body.member);
+      const messages = Array.isArray(body.messages) ? body.messages.map((m: unknown) => parseMessage(m, member)) : [];
+      hub.join(member, role);
+      messages.forEach((m: ClientMessage) => hub.receive(member, role, m));
+      send(res, 200, hub.snapshot());
+    } catch (error) {
+      if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+      console.error("Team Server Error:", error);
+      send(res, 500, { error: 'falha no servidor de equipe' });
+    }
+  };
+}
+
+/**
+ * Accepts WebSocket connections on `${TEAM_PREFIX}/ws`. The first message
+ * must be `hello`; the device then receives a snapshot and every change.
+ */
+export function attachTeamSocket(server: Server, hub: TeamHub, options: TeamServerOptions = {}) {
+  const checkToken = createTokenCheck(options);
+  // Mesmo limite do HTTP; o padrão do ws (100 MiB) deixaria qualquer um esgotar a memória
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_BODY_BYTES });
+
+  server.on('upgrade', (req, socket, head) => {
+    if ((req.url || '').split('?')[0] !== `${TEAM_PREFIX}/ws`) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws: WebSocket & { isAlive?: boolean }) => {
+    let identity: { member: TeamMember; role: TeamRole } | null = null;
+    let unsubscribe = () => {};
+    ws.isAlive = true;
+    ws.on('pong', () => { ws.isAlive = true; });
+
+    ws.on('message', (data) => {
+      try {
+        const raw = JSON.parse(data.toString());
+        if (!identity) {
+          if (raw?.type !== 'hello') throw new HttpError(400, 'esperado hello');
+          const role = checkToken(raw.token, raw.role);
+          identity = { member: parseMember(raw.member), role };
+          hub.join(identity.member, identity.role);
+          unsubscribe = hub.subscribe((message) => ws.readyState === WebSocket.OPEN && ws.send(JSON.stringify(message)));
+          ws.send(JSON.stringify(hub.snapshot()));
+          return;
+        }
+        hub.receive(identity.member, identity.role, parseMessage(raw, identity.member));
+      } catch (error) {
+        // Mensagem inválida derruba só a própria mensagem; sem identificação, a conexão
+        if (!identity) ws.close(1008, error instanceof Error ? error.message : 'inválido');
+      }
+    });
+    ws.on('close', () => unsubscribe());
+  });
+
+  // Derruba conexões que pararam de responder (ex.: celular sem sinal)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws: WebSocket & { isAlive?: boolean }) => {
+      if (!ws.isAlive) return ws.terminate();
+      ws.isAlive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+  return wss;
+}
+
+/**
+ * Runs the team server inside the Vite dev and preview servers, so a local
+ * `npm run dev` already syncs the devices on the same network.
+ */
+export function teamServerPlugin(options: TeamServerOptions = {}): Plugin {
+  const hub = createTeamHub();
+  const handler = createTeamHandler(hub, options);
+  return {
+    name: 'team-server',
+    configureServer(server) {
+      server.middlewares.use(handler);
+      if (server.httpServer) attachTeamSocket(server.httpServer as Server, hub, options);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+      attachTeamSocket(server.httpServer as Server, hub, options);
+    },
+  };
+}
@@ -0,0 +1,133 @@
+
+import { STORES, putRecord, getAllRecords, deleteRecord } from './storageService';
+
+export interface CacheEntry<T = unknown> {
+  id: string;
+  namespace: string;
+  key: string;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheOptions {
+  namespace: string;
+  /** Shown in the settings screen. */
+  label: string;
+  maxEntries: number;
+  ttlMs: number;
+}
+
+export interface PersistentCache<T> {
+  options: CacheOptions;
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, ttlMs?: number): Promise<void>;
+  entries(): Promise<CacheEntry<T>[]>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const registry = new Map<string, PersistentCache<any>>();
+
+/**
+ * Case- and accent-insensitive key, so "Tianguá" and "tiangua " hit the same
+ * entry. Unlike `normalizeName` it keeps punctuation and signs, which matter
+ * in coordinate keys.
+ */
+export const normalizeCacheKey = (key: string) =>
+  key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Bounded LRU cache with per-entry expiry, mirrored to IndexedDB so it
+ * survives reloads. Entries are loaded on first use.
+ */
+export function createPersistentCache<T>(options: CacheOptions): PersistentCache<T> {
+  const { namespace, maxEntries, ttlMs } = options;
+  // A ordem de inserção do Map é a ordem de uso: o primeiro é o menos recente
+  const memory = new Map<string, CacheEntry<T>>();
+  let loaded: Promise<void> | null = null;
+
+  const persist = (action: Promise<void>) => action.catch((error) => console.error("Cache Error:", error));
+
+  const load = () => {
+    if (!loaded) {
+      loaded = getAllRecords<CacheEntry<T>>(STORES.cache)
+        .then((records) => {
+          records
+            .filter(r => r.namespace === namespace)
+            .sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+            .forEach(r => { if (!memory.has(r.key)) memory.set(r.key, r); });
+        })
+        .catch((error) => console.error("Cache Error:", error));
+    }
+    return loaded;
+  };
+
+  const remove = (key: string) => {
+    const entry = memory.get(key);
+    memory.delete(key);
+    if (entry) return persist(deleteRecord(STORES.cache, entry.id));
+  };
+
+  const cache: PersistentCache<T> = {
+    options,
+
+    async get(rawKey) {
+      await load();
+      const key = normalizeCacheKey(rawKey);
+      const entry = memory.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await remove(key);
+        return undefined;
+      }
+      memory.delete(key);
+      memory.set(key, { ...entry, lastUsedAt: Date.now() });
+      persist(putRecord(STORES.cache, memory.get(key)!));
+      return entry.value;
+    },
+
+    async set(rawKey, value, entryTtlMs = ttlMs) {
+      await load();
+      const key = normalizeCacheKey(rawKey);
+      const now = Date.now();
+      const entry: CacheEntry<T> = { id: `${namespace}:${key}`, namespace, key, value, createdAt: now, expiresAt: now + entryTtlMs, lastUsedAt: now };
+      memory.delete(key);
+      memory.set(key, entry);
+      await persist(putRecord(STORES.cache, entry));
+      while (memory.size > maxEntries) {
+        await remove(memory.keys().next().value!);
+      }
+    },
+
+    async entries() {
+      await load();
+      const now = Date.now();
+      await Promise.all(Array.from(memory.values()).filter(e => e.expiresAt <= now).map(e => remove(e.key)));
+      return Array.from(memory.values()).reverse();
+    },
+
+    async delete(rawKey) {
+      await load();
+      await remove(normalizeCacheKey(rawKey));
+    },
+
+    async clear() {
+      await load();
+      await Promise.all(Array.from(memory.keys()).map(remove));
+    },
+  };
+
+  registry.set(namespace, cache);
+  return cache;
+}
+
+/** Every cache created so far, for the settings screen. */
+export const listCaches = (): PersistentCache<unknown>[] => Array.from(registry.values());
+
+export async function clearAllCaches(): Promise<void> {
+  await Promise.all(listCaches().map(c => c.clear()));
+}
@@ -0,0 +1,37 @@
+
+import { CheckIn } from '../types';
+import { STORES, putRecord, getAllRecords } from './storageService';
+
+export async function saveCheckIn(checkIn: CheckIn): Promise<void> {
+  try {
+    await putRecord(STORES.checkIns, checkIn);
+  } catch (error) {
+    console.error("Check-in Error:", error);
+  }
+}
+
+/**
+ * Lists the automatic check-ins of one business, newest first.
+ */
+export async function listCheckIns(businessId: string): Promise<CheckIn[]> {
+  try {
+    const records = await getAllRecords<CheckIn>(STORES.checkIns);
+    return records.filter(c => c.businessId === businessId).sort((a, b) => b.arrivedAt - a.arrivedAt);
+  } catch (error) {
+    console.error("Check-in Error:", error);
+    return [];
+  }
+}
+
+/**
+ * Lists every stored check-in, oldest first.
+ */
+export async function listAllCheckIns(): Promise<CheckIn[]> {
+  try {
+    const records = await getAllRecords<CheckIn>(STORES.checkIns);
+    return records.sort((a, b) => a.arrivedAt - b.arrivedAt);
+  } catch (error) {
+    console.error("Check-in Error:", error);
+    return [];
+  }
+}
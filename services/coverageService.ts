@@ -0,0 +1,131 @@
+
+import { District, Location } from '../types';
+
+/** Radius assumed for districts that only have a centre point. */
+export const DISTRICT_RADIUS_M = 500;
+/** A sample counts as covered when the track passed within this distance. */
+const COVERAGE_BUFFER_M = 120;
+/** Coverage percentage from which a district is flagged as covered. */
+export const COVERED_THRESHOLD = 60;
+const GRID_SIZE = 12;
+
+const METERS_PER_DEG_LAT = 111320;
+
+interface DistrictSamples {
+  samples: Location[];
+  covered: boolean[];
+  coveredCount: number;
+}
+
+function pointInPolygon(p: Location, polygon: Location[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > p.lat) !== (b.lat > p.lat) && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Fast local distance for the many sample checks; fine at district scale.
+function approxDistance(a: Location, b: Location): number {
+  const x = (b.lng - a.lng) * Math.cos(((a.lat + b.lat) / 2) * Math.PI / 180) * METERS_PER_DEG_LAT;
+  const y = (b.lat - a.lat) * METERS_PER_DEG_LAT;
+  return Math.hypot(x, y);
+}
+
+/**
+ * Spreads a regular grid of sample points over the district area.
+ */
+function sampleDistrict(district: District): Location[] {
+  const polygon = district.polygon && district.polygon.length >= 3 ? district.polygon : null;
+  let minLat: number, maxLat: number, minLng: number, maxLng: number;
+
+  if (polygon) {
+    minLat = Math.min(...polygon.map(p => p.lat));
+    maxLat = Math.max(...polygon.map(p => p.lat));
+    minLng = Math.min(...polygon.map(p => p.lng));
+    maxLng = Math.max(...polygon.map(p => p.lng));
+  } else {
+    const dLat = DISTRICT_RADIUS_M / METERS_PER_DEG_LAT;
+    const dLng = dLat / Math.cos(district.lat * Math.PI / 180);
+    minLat = district.lat - dLat;
+    maxLat = district.lat + dLat;
+    minLng = district.lng - dLng;
+    maxLng = district.lng + dLng;
+  }
+
+  const samples: Location[] = [];
+  for (let i = 0; i < GRID_SIZE; i++) {
+    for (let j = 0; j < GRID_SIZE; j++) {
+      const p = {
+        lat: minLat + ((i + 0.5) / GRID_SIZE) * (maxLat - minLat),
+        lng: minLng + ((j + 0.5) / GRID_SIZE) * (maxLng - minLng),
+      };
+      const inside = polygon ? pointInPolygon(p, polygon) : approxDistance(p, district) <= DISTRICT_RADIUS_M;
+      if (inside) samples.push(p);
+    }
+  }
+  return samples.length > 0 ? samples : [{ lat: district.lat, lng: district.lng }];
+}
+
+/**
+ * Incrementally measures how much of each district the track has covered.
+ * Only track points added since the previous call are checked; the state
+ * resets when the track restarts or the district list or shapes change.
+ */
+export function createCoverageTracker() {
+  let districtKey = '';
+  let processed = 0;
+  let state = new Map<string, DistrictSamples>();
+
+  const update = (districts: District[], track: Location[]): Map<string, number> => {
+    // Um contorno que chega depois muda a área amostrada
+    const key = districts.map(d => `${d.id}:${d.polygon?.length ?? 0}`).join('|');
+    if (key !== districtKey || track.length < processed) {
+      districtKey = key;
+      processed = 0;
+      state = new Map(districts.map(d => {
+        const samples = sampleDistrict(d);
+        return [d.id, { samples, covered: samples.map(() => false), coveredCount: 0 }];
+      }));
+    }
+
+    const fresh = track.slice(processed);
+    processed = track.length;
+    state.forEach((entry) => {
+      fresh.forEach((point) => {
+        entry.samples.forEach((sample, i) => {
+          if (!entry.covered[i] && approxDistance(point, sample) <= COVERAGE_BUFFER_M) {
+            entry.covered[i] = true;
+            entry.coveredCount++;
+          }
+        });
+      });
+    });
+
+    const result = new Map<string, number>();
+    state.forEach((entry, id) => result.set(id, Math.round((entry.coveredCount / entry.samples.length) * 100)));
+    return result;
+  };
+
+  return { update };
+}
+
+/**
+ * Average coverage across all districts, 0-100.
+ */
+export function cityCoverage(districts: District[]): number {
+  if (districts.length === 0) return 0;
+  return Math.round(districts.reduce((sum, d) => sum + (d.coverage || 0), 0) / districts.length);
+}
+
+export function coverageColor(coverage: number | undefined): string {
+  if (!coverage) return '#4b4b4b';
+  if (coverage < 25) return '#ef4444';
+  if (coverage < 50) return '#f59e0b';
+  if (coverage < COVERED_THRESHOLD) return '#84cc16';
+  return '#10b981';
+}
@@ -0,0 +1,56 @@
+
+import { BusinessPoint, Location } from '../types';
+import { haversineDistance } from './geoUtils';
+import { STORES, putRecord, getRecord, deleteRecord } from './storageService';
+
+const LIST_ID = 'current';
+/** Imported points farther than this from the searched centre belong to another area. */
+const LIST_AREA_RADIUS_M = 20000;
+
+export interface CustomerList {
+  id: string;
+  source: string;
+  importedAt: number;
+  businesses: BusinessPoint[];
+}
+
+/**
+ * Stores an imported list. While one exists it replaces the AI-generated bars
+ * of the area it covers.
+ */
+export async function saveCustomerList(source: string, businesses: BusinessPoint[]): Promise<CustomerList> {
+  const list: CustomerList = { id: LIST_ID, source, importedAt: Date.now(), businesses };
+  try {
+    await putRecord(STORES.customerList, list);
+  } catch (error) {
+    console.error("Customer List Error:", error);
+  }
+  return list;
+}
+
+/**
+ * The imported points around `center`, or null when the list covers another
+ * area and the AI-generated bars should be used instead.
+ */
+export function customerListNear(list: CustomerList | null, center: Location): BusinessPoint[] | null {
+  if (!list) return null;
+  const near = list.businesses.filter(b => haversineDistance(b, center) <= LIST_AREA_RADIUS_M);
+  return near.length > 0 ? near : null;
+}
+
+export async function loadCustomerList(): Promise<CustomerList | null> {
+  try {
+    return (await getRecord<CustomerList>(STORES.customerList, LIST_ID)) || null;
+  } catch (error) {
+    console.error("Customer List Error:", error);
+    return null;
+  }
+}
+
+export async function clearCustomerList(): Promise<void> {
+  try {
+    await deleteRecord(STORES.customerList, LIST_ID);
+  } catch (error) {
+    console.error("Customer List Error:", error);
+  }
+}
@@ -0,0 +1,200 @@
+
+import { BusinessPoint, Location, TrackingPath, VisitRecord } from '../types';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ExportTrackPoint {
+  location: Location;
+  timestamp?: number;
+}
+
+export interface ExportBundle {
+  name: string;
+  track: ExportTrackPoint[];
+  visits: VisitRecord[];
+  businesses: BusinessPoint[];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isoTime = (ts?: number) => ts && Number.isFinite(ts) ? new Date(ts).toISOString() : undefined;
+
+const outcomeLabel = (visit: VisitRecord) =>
+  visit.outcome === 'success' ? 'OK' : `ERRO${visit.failureReason ? ` - ${visit.failureReason}` : ''}`;
+
+/**
+ * Where a visit happened: the GPS fix at submission, or the business itself.
+ */
+function visitLocation(visit: VisitRecord, businesses: BusinessPoint[]): Location | null {
+  if (visit.position) return visit.position;
+  const business = businesses.find(b => b.id === visit.businessId);
+  return business ? { lat: business.lat, lng: business.lng } : null;
+}
+
+export function buildGpx({ name, track, visits, businesses }: ExportBundle): string {
+  const waypoints = visits.map((v) => {
+    const loc = visitLocation(v, businesses);
+    if (!loc) return '';
+    return `  <wpt lat="${loc.lat}" lon="${loc.lng}">
+    <time>${isoTime(v.timestamp)}</time>
+    <name>${escapeXml(v.businessName)}</name>
+    <desc>${escapeXml(outcomeLabel(v) + (v.note ? ` - ${v.note}` : ''))}</desc>
+    <type>${v.outcome}</type>
+  </wpt>`;
+  }).filter(Boolean).join('\n');
+
+  const trackpoints = track.map((p) => {
+    const time = isoTime(p.timestamp);
+    return `      <trkpt lat="${p.location.lat}" lon="${p.location.lng}">${time ? `<time>${time}</time>` : ''}</trkpt>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Rotas Bets" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${escapeXml(name)}</name></metadata>
+${waypoints}
+  <trk>
+    <name>${escapeXml(name)}</name>
+    <trkseg>
+${trackpoints}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+export function buildKml({ name, track, visits, businesses }: ExportBundle): string {
+  const placemarks = visits.map((v) => {
+    const loc = visitLocation(v, businesses);
+    if (!loc) return '';
+    return `    <Placemark>
+      <name>${escapeXml(v.businessName)}</name>
+      <description>${escapeXml(outcomeLabel(v) + (v.note ? ` - ${v.note}` : ''))}</description>
+      <TimeStamp><when>${isoTime(v.timestamp)}</when></TimeStamp>
+      <styleUrl>#${v.outcome}</styleUrl>
+      <Point><coordinates>${loc.lng},${loc.lat},0</coordinates></Point>
+    </Placemark>`;
+  }).filter(Boolean).join('\n');
+
+  const coordinates = track.map(p => `${p.location.lng},${p.location.lat},0`).join(' ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Style id="success"><IconStyle><color>ff81b910</color><Icon><href>http://maps.google.com/mapfiles/kml/paddle/grn-circle.png</href></Icon></IconStyle></Style>
+    <Style id="failure"><IconStyle><color>ff4444ef</color><Icon><href>http://maps.google.com/mapfiles/kml/paddle/red-circle.png</href></Icon></IconStyle></Style>
+    <Style id="track"><LineStyle><color>fff6823b</color><width>4</width></LineStyle></Style>
+    <Placemark>
+      <name>Percurso</name>
+      <styleUrl>#track</styleUrl>
+      <LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>
+    </Placemark>
+${placemarks}
+  </Document>
+</kml>
+`;
+}
+
+export function buildGeoJson({ name, track, visits, businesses }: ExportBundle): string {
+  const features: any[] = [{
+    type: 'Feature',
+    properties: {
+      name,
+      kind: 'track',
+      coordTimes: track.map(p => isoTime(p.timestamp) ?? null),
+    },
+    geometry: { type: 'LineString', coordinates: track.map(p => [p.location.lng, p.location.lat]) },
+  }];
+
+  visits.forEach((v) => {
+    const loc = visitLocation(v, businesses);
+    if (!loc) return;
+    features.push({
+      type: 'Feature',
+      properties: {
+        kind: 'visit',
+        businessId: v.businessId,
+        name: v.businessName,
+        outcome: v.outcome,
+        failureReason: v.failureReason ?? null,
+        note: v.note ?? null,
+        time: isoTime(v.timestamp),
+      },
+      geometry: { type: 'Point', coordinates: [loc.lng, loc.lat] },
+    });
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+const REVOKE_DELAY_MS = 60000;
+
+const BUILDERS: Record<ExportFormat, (bundle: ExportBundle) => string> = {
+  gpx: buildGpx,
+  kml: buildKml,
+  geojson: buildGeoJson,
+};
+
+export function downloadExport(bundle: ExportBundle, format: ExportFormat): void {
+  const blob = new Blob([BUILDERS[format](bundle)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${bundle.name}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Safari e alguns WebViews iniciam o download depois do clique
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+const parseTime = (value: unknown) => {
+  const ts = typeof value === 'number' ? value : Date.parse(String(value ?? ''));
+  return Number.isFinite(ts) ? ts : NaN;
+};
+
+function parseGpxTrack(text: string): TrackingPath[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('GPX inválido.');
+  return Array.from(doc.getElementsByTagName('trkpt')).map((pt) => ({
+    timestamp: parseTime(pt.getElementsByTagName('time')[0]?.textContent),
+    location: { lat: Number(pt.getAttribute('lat')), lng: Number(pt.getAttribute('lon')) },
+  }));
+}
+
+function parseGeoJsonTrack(text: string): TrackingPath[] {
+  const data = JSON.parse(text);
+  const features: any[] = data?.type === 'FeatureCollection' ? data.features : data?.type === 'Feature' ? [data] : [];
+  const points: TrackingPath[] = [];
+
+  features.forEach((feature) => {
+    const geometry = feature?.geometry;
+    const times: unknown[] = feature?.properties?.coordTimes || feature?.properties?.times || [];
+    const lines: number[][][] = geometry?.type === 'LineString' ? [geometry.coordinates]
+      : geometry?.type === 'MultiLineString' ? geometry.coordinates : [];
+    let offset = 0;
+    lines.forEach((line) => {
+      line.forEach(([lng, lat], i) => points.push({ timestamp: parseTime(times[offset + i]), location: { lat, lng } }));
+      offset += line.length;
+    });
+  });
+  return points;
+}
+
+/**
+ * Reads a track from a GPX or GeoJSON file. Points keep their timestamps
+ * when the file has them (NaN otherwise).
+ */
+export function parseTrackFile(text: string, fileName: string): TrackingPath[] {
+  const points = /\.gpx$/i.test(fileName) ? parseGpxTrack(text) : parseGeoJsonTrack(text);
+  const valid = points.filter(p => Number.isFinite(p.location.lat) && Number.isFinite(p.location.lng));
+  if (valid.length < 2) throw new Error('Nenhuma trilha encontrada no arquivo.');
+  return valid;
+}
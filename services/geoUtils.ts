@@ -0,0 +1,105 @@
+
+import { Location } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two coordinates, in metres.
+ */
+export function haversineDistance(a: Location, b: Location): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Total length of a path, in kilometres.
+ */
+export function pathDistanceKm(path: Location[]): number {
+  let meters = 0;
+  for (let i = 1; i < path.length; i++) {
+    meters += haversineDistance(path[i - 1], path[i]);
+  }
+  return meters / 1000;
+}
+
+export interface PolylineProjection {
+  /** Distance from the point to the polyline, in metres. */
+  distance: number;
+  /** Index of the segment start vertex the point projects onto. */
+  segmentIndex: number;
+  /** Position along that segment, 0..1. */
+  t: number;
+  point: Location;
+}
+
+/**
+ * Projects a point onto the closest segment of a polyline. Uses a local
+ * equirectangular approximation, which is accurate at street scale.
+ */
+export function projectOntoPolyline(point: Location, line: Location[]): PolylineProjection {
+  if (line.length === 1) {
+    return { distance: haversineDistance(point, line[0]), segmentIndex: 0, t: 0, point: line[0] };
+  }
+
+  const cosLat = Math.cos(toRad(point.lat));
+  const toXY = (p: Location) => ({
+    x: toRad(p.lng - point.lng) * cosLat * EARTH_RADIUS_M,
+    y: toRad(p.lat - point.lat) * EARTH_RADIUS_M,
+  });
+
+  let best: PolylineProjection = { distance: Infinity, segmentIndex: 0, t: 0, point: line[0] };
+  let b = toXY(line[0]);
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = b;
+    b = toXY(line[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lenSq));
+    const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+    if (distance < best.distance) {
+      best = {
+        distance,
+        segmentIndex: i,
+        t,
+        point: {
+          lat: line[i].lat + t * (line[i + 1].lat - line[i].lat),
+          lng: line[i].lng + t * (line[i + 1].lng - line[i].lng),
+        },
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Distance in metres along a polyline from a projected position to a vertex.
+ */
+export function distanceAlongPolyline(line: Location[], from: PolylineProjection, toIndex: number): number {
+  if (toIndex <= from.segmentIndex) return 0;
+  let meters = haversineDistance(from.point, line[from.segmentIndex + 1]);
+  for (let i = from.segmentIndex + 1; i < toIndex; i++) {
+    meters += haversineDistance(line[i], line[i + 1]);
+  }
+  return meters;
+}
+
+/**
+ * Initial great-circle bearing from `a` to `b`, in degrees clockwise from north (0..360).
+ */
+export function bearing(a: Location, b: Location): number {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) - Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Shortest distance from a point to a polyline, in metres.
+ */
+export const distanceToPolyline = (point: Location, line: Location[]): number =>
+  line.length === 0 ? Infinity : projectOntoPolyline(point, line).distance;
@@ -0,0 +1,71 @@
+
+import { BusinessPoint, Location } from '../types';
+import { haversineDistance } from './geoUtils';
+
+export interface GeofenceConfig {
+  radiusMeters: number;
+  dwellMs: number;
+}
+
+export type GeofenceEvent =
+  | { type: 'arrival'; business: BusinessPoint; at: number }
+  | { type: 'departure'; business: BusinessPoint; arrivedAt: number; at: number };
+
+// Sair exige uma margem extra além do raio para não oscilar com o ruído do GPS
+const EXIT_HYSTERESIS = 1.5;
+
+/**
+ * Tracks which businesses the user is dwelling at. Feed it every location
+ * fix; it emits an arrival once the user stayed inside the radius for the
+ * dwell time, and a departure when they leave a confirmed geofence.
+ */
+export function createGeofenceEngine(initialConfig: GeofenceConfig) {
+  let config = initialConfig;
+  const entering = new Map<string, number>();
+  const inside = new Map<string, { business: BusinessPoint; arrivedAt: number }>();
+
+  const update = (loc: Location, businesses: BusinessPoint[], now: number): GeofenceEvent[] => {
+    const events: GeofenceEvent[] = [];
+
+    businesses.forEach((business) => {
+      const distance = haversineDistance(loc, business);
+      const visit = inside.get(business.id);
+
+      if (visit) {
+        if (distance > config.radiusMeters * EXIT_HYSTERESIS) {
+          inside.delete(business.id);
+          events.push({ type: 'departure', business, arrivedAt: visit.arrivedAt, at: now });
+        }
+        return;
+      }
+
+      if (distance > config.radiusMeters) {
+        entering.delete(business.id);
+        return;
+      }
+
+      const enteredAt = entering.get(business.id) ?? now;
+      entering.set(business.id, enteredAt);
+      if (now - enteredAt >= config.dwellMs) {
+        entering.delete(business.id);
+        inside.set(business.id, { business, arrivedAt: enteredAt });
+        events.push({ type: 'arrival', business, at: enteredAt });
+      }
+    });
+
+    return events;
+  };
+
+  const configure = (next: GeofenceConfig) => {
+    config = next;
+  };
+
+  const reset = () => {
+    entering.clear();
+    inside.clear();
+  };
+
+  return { update, configure, reset };
+}
+
+export type GeofenceEngine = ReturnType<typeof createGeofenceEngine>;
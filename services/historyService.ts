@@ -0,0 +1,60 @@
+
+import { RouteHistory, ShiftTransition, TrackingPath } from '../types';
+import { STORES, putRecord, getAllRecords, deleteRecord } from './storageService';
+import { pathDistanceKm } from './geoUtils';
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Builds a RouteHistory from a finished shift and stores it in IndexedDB.
+ * Returns null when the track is too short to be worth keeping.
+ */
+export async function saveShift(trackingPath: TrackingPath[], transitions: ShiftTransition[] = []): Promise<RouteHistory | null> {
+  if (trackingPath.length < 2) return null;
+
+  const start = transitions[0]?.at ?? trackingPath[0].timestamp;
+  const end = transitions[transitions.length - 1]?.at ?? trackingPath[trackingPath.length - 1].timestamp;
+  const path = trackingPath.map(tp => tp.location);
+
+  const record: RouteHistory = {
+    id: Math.random().toString(36).substr(2, 9),
+    startedAt: start,
+    date: new Date(start).toLocaleDateString('pt-BR'),
+    startTime: formatTime(start),
+    endTime: formatTime(end),
+    distanceKm: Number(pathDistanceKm(path).toFixed(2)),
+    path,
+    track: trackingPath,
+    transitions,
+  };
+
+  try {
+    await putRecord(STORES.routeHistory, record);
+  } catch (error) {
+    console.error("History Error:", error);
+    return null;
+  }
+  return record;
+}
+
+/**
+ * Lists saved shifts, newest first.
+ */
+export async function listShifts(): Promise<RouteHistory[]> {
+  try {
+    const records = await getAllRecords<RouteHistory>(STORES.routeHistory);
+    return records.sort((a, b) => b.startedAt - a.startedAt);
+  } catch (error) {
+    console.error("History Error:", error);
+    return [];
+  }
+}
+
+export async function deleteShift(id: string): Promise<void> {
+  try {
+    await deleteRecord(STORES.routeHistory, id);
+  } catch (error) {
+    console.error("History Error:", error);
+  }
+}
+
@@ -0,0 +1,199 @@
+
+import { BusinessPoint, WeeklyHours } from '../types';
+import { haversineDistance } from './geoUtils';
+import { normalizeName, stablePlaceId } from './placeService';
+import { parseWeeklyHours } from './openingHoursService';
+
+export type BusinessType = 'bar' | 'salon' | 'rental';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  name: number;
+  lat: number;
+  lng: number;
+  address: number;
+  type: number;
+  openingHours: number;
+  visitWindows: number;
+}
+
+export interface ImportCandidate {
+  name: string;
+  lat: number;
+  lng: number;
+  address?: string;
+  type: BusinessType;
+  openingHours?: WeeklyHours;
+  visitWindows?: WeeklyHours;
+  /** Invalid rows cannot be imported at all. */
+  error?: string;
+  /** Index of the earlier candidate this row duplicates. */
+  duplicateOf?: number;
+}
+
+/** Points closer than this are flagged as the same place. */
+const DUPLICATE_RADIUS_M = 25;
+
+/**
+ * Minimal RFC 4180 parser. Detects `;` (common in Brazilian spreadsheets),
+ * tab or `,` as the delimiter from the header line.
+ */
+export function parseCsv(text: string): CsvTable {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const records: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      records.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    records.push(row);
+  }
+
+  const nonEmpty = records.filter(r => r.some(v => v.trim()));
+  return { headers: (nonEmpty[0] || []).map(h => h.trim()), rows: nonEmpty.slice(1) };
+}
+
+/**
+ * Picks the most likely column for each field from the header names.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeName);
+  const find = (...names: string[]) => normalized.findIndex(h => names.some(n => h === n || h.startsWith(n)));
+  return {
+    name: find('nome', 'name', 'estabelecimento', 'razao social', 'fantasia'),
+    lat: find('lat', 'latitude'),
+    lng: find('lng', 'lon', 'long', 'longitude'),
+    address: find('endereco', 'address', 'logradouro'),
+    type: find('tipo', 'type', 'categoria', 'category'),
+    openingHours: find('horario', 'funcionamento', 'opening hours', 'hours'),
+    visitWindows: find('janela', 'visita', 'visit'),
+  };
+}
+
+const parseCoordinate = (value: unknown) => Number(String(value ?? '').trim().replace(',', '.'));
+
+export function parseBusinessType(value: unknown, fallback: BusinessType): BusinessType {
+  const v = normalizeName(String(value ?? ''));
+  if (v.startsWith('bar') || v.includes('boteco') || v.includes('lanchonete')) return 'bar';
+  if (v.startsWith('salao') || v.startsWith('salon') || v.includes('cabeleire') || v.includes('beleza')) return 'salon';
+  if (v.startsWith('locadora') || v.startsWith('rental') || v.includes('aluguel')) return 'rental';
+  return fallback;
+}
+
+/** Reads both hour columns; a value that cannot be read fails the row. */
+function parseHoursFields(opening: unknown, windows: unknown): Pick<ImportCandidate, 'openingHours' | 'visitWindows' | 'error'> {
+  try {
+    return {
+      openingHours: parseWeeklyHours(String(opening ?? '')),
+      visitWindows: parseWeeklyHours(String(windows ?? '')),
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function validateCoordinates(lat: number, lng: number): string | undefined {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return 'Coordenadas ausentes';
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return 'Coordenadas fora do intervalo';
+  if (lat === 0 && lng === 0) return 'Coordenadas zeradas';
+  return undefined;
+}
+
+/**
+ * Validates every candidate and flags duplicates by normalized name against
+ * any earlier row, or by proximity to an earlier row with valid coordinates.
+ */
+function flagCandidates(candidates: ImportCandidate[]): ImportCandidate[] {
+  return candidates.map((c, i) => {
+    const error = c.error || (!c.name.trim() ? 'Nome ausente' : validateCoordinates(c.lat, c.lng));
+    if (error) return { ...c, error };
+    const name = normalizeName(c.name);
+    const duplicateOf = candidates.findIndex((other, j) =>
+      j < i && (normalizeName(other.name) === name ||
+        (!validateCoordinates(other.lat, other.lng) && haversineDistance(c, other) <= DUPLICATE_RADIUS_M))
+    );
+    return duplicateOf === -1 ? c : { ...c, duplicateOf };
+  });
+}
+
+export function candidatesFromCsv(table: CsvTable, mapping: ColumnMapping, defaultType: BusinessType): ImportCandidate[] {
+  const cell = (row: string[], index: number) => index >= 0 ? (row[index] || '').trim() : '';
+  return flagCandidates(table.rows.map(row => ({
+    name: cell(row, mapping.name),
+    lat: parseCoordinate(cell(row, mapping.lat)),
+    lng: parseCoordinate(cell(row, mapping.lng)),
+    address: cell(row, mapping.address) || undefined,
+    type: mapping.type >= 0 ? parseBusinessType(cell(row, mapping.type), defaultType) : defaultType,
+    ...parseHoursFields(cell(row, mapping.openingHours), cell(row, mapping.visitWindows)),
+  })));
+}
+
+/**
+ * Reads Point features from a GeoJSON FeatureCollection. Name, address and
+ * type are taken from the usual property keys.
+ */
+export function candidatesFromGeoJson(text: string, defaultType: BusinessType): ImportCandidate[] {
+  const data = JSON.parse(text);
+  if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new Error('O arquivo não é uma FeatureCollection GeoJSON.');
+  }
+
+  return flagCandidates(data.features.map((feature: any): ImportCandidate => {
+    const props = feature?.properties || {};
+    const name = String(props.name ?? props.nome ?? props.title ?? '');
+    const type = parseBusinessType(props.type ?? props.tipo ?? props.category, defaultType);
+    if (feature?.geometry?.type !== 'Point') {
+      return { name, lat: NaN, lng: NaN, type, error: 'Geometria não é um ponto' };
+    }
+    const [lng, lat] = feature.geometry.coordinates || [];
+    return {
+      name,
+      lat: parseCoordinate(lat),
+      lng: parseCoordinate(lng),
+      address: props.address ?? props.endereco ?? undefined,
+      type,
+      ...parseHoursFields(props.opening_hours ?? props.horario, props.visit_window ?? props.janela_visita),
+    };
+  }));
+}
+
+export function candidatesToBusinesses(candidates: ImportCandidate[]): BusinessPoint[] {
+  return candidates.map(c => ({
+    id: stablePlaceId(c.type, c.name, c),
+    name: c.name.trim(),
+    type: c.type,
+    lat: c.lat,
+    lng: c.lng,
+    address: c.address,
+    openingHours: c.openingHours,
+    visitWindows: c.visitWindows,
+    status: 'pending' as const,
+  }));
+}
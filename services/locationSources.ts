@@ -0,0 +1,184 @@
+
+import { GpsFix, Location, TrackingPath } from '../types';
+import { haversineDistance } from './geoUtils';
+
+export type LocationSourceKind = 'browser' | 'replay' | 'route';
+
+/**
+ * Anything that produces position fixes. The app subscribes to exactly one
+ * source at a time.
+ */
+export interface LocationSource {
+  kind: LocationSourceKind;
+  start(onFix: (fix: GpsFix) => void): void;
+  stop(): void;
+}
+
+export interface PlaybackState {
+  playing: boolean;
+  /** Simulated time since the start of the timeline, in ms. */
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+}
+
+export interface PlaybackSource extends LocationSource {
+  play(): void;
+  pause(): void;
+  seek(positionMs: number): void;
+  setSpeed(speed: number): void;
+  getState(): PlaybackState;
+}
+
+/** Simulated point in time; `t` is ms from the start of the timeline. */
+interface TimelinePoint {
+  t: number;
+  location: Location;
+}
+
+const TICK_MS = 500;
+// Precisão informada pelas fontes simuladas, boa o bastante para passar no filtro
+const SIMULATED_ACCURACY_M = 5;
+/** Speed assumed for tracks without timestamps, in m/s (~36 km/h). */
+export const DEFAULT_REPLAY_SPEED_MPS = 10;
+
+export function createBrowserSource(): LocationSource {
+  let watchId: number | null = null;
+  return {
+    kind: 'browser',
+    start(onFix) {
+      if (!navigator.geolocation || watchId !== null) return;
+      watchId = navigator.geolocation.watchPosition(
+        (pos) => onFix({
+          location: { lat: pos.coords.latitude, lng: pos.coords.longitude },
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp,
+        }),
+        (error) => console.error("Geolocation Error:", error),
+        { enableHighAccuracy: true }
+      );
+    },
+    stop() {
+      if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+      watchId = null;
+    },
+  };
+}
+
+/**
+ * Times each vertex by the distance travelled at a constant speed.
+ */
+function timelineAtSpeed(line: Location[], speedMps: number): TimelinePoint[] {
+  let t = 0;
+  return line.map((location, i) => {
+    if (i > 0) t += (haversineDistance(line[i - 1], location) / speedMps) * 1000;
+    return { t, location };
+  });
+}
+
+/** True when every point has a timestamp and they never go backwards. */
+export const hasTimestamps = (track: TrackingPath[]) =>
+  track.every((p, i) => Number.isFinite(p.timestamp) && (i === 0 || p.timestamp >= track[i - 1].timestamp));
+
+/**
+ * Uses the recorded timestamps when every point has one, else a constant speed.
+ */
+function timelineFromTrack(track: TrackingPath[]): TimelinePoint[] {
+  if (!hasTimestamps(track)) return timelineAtSpeed(track.map(p => p.location), DEFAULT_REPLAY_SPEED_MPS);
+  return track.map(p => ({ t: p.timestamp - track[0].timestamp, location: p.location }));
+}
+
+function interpolate(timeline: TimelinePoint[], t: number): Location {
+  if (t <= 0) return timeline[0].location;
+  const last = timeline[timeline.length - 1];
+  if (t >= last.t) return last.location;
+  let i = 1;
+  while (timeline[i].t < t) i++;
+  const a = timeline[i - 1];
+  const b = timeline[i];
+  const f = b.t === a.t ? 1 : (t - a.t) / (b.t - a.t);
+  return { lat: a.location.lat + f * (b.location.lat - a.location.lat), lng: a.location.lng + f * (b.location.lng - a.location.lng) };
+}
+
+/**
+ * Plays a timeline back as GPS fixes. Fix timestamps follow the simulated
+ * clock, so speed checks downstream see realistic speeds at any multiplier.
+ */
+function createPlaybackSource(kind: LocationSourceKind, timeline: TimelinePoint[], onState?: (state: PlaybackState) => void): PlaybackSource {
+  const durationMs = timeline[timeline.length - 1].t;
+  const epoch = Date.now();
+  let positionMs = 0;
+  let speed = 1;
+  let playing = false;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let emit: ((fix: GpsFix) => void) | null = null;
+
+  const getState = (): PlaybackState => ({ playing, positionMs, durationMs, speed });
+
+  const emitFix = () => {
+    emit?.({ location: interpolate(timeline, positionMs), accuracy: SIMULATED_ACCURACY_M, timestamp: epoch + positionMs });
+    onState?.(getState());
+  };
+
+  const stopTimer = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const source: PlaybackSource = {
+    kind,
+    start(onFix) {
+      emit = onFix;
+      emitFix();
+      source.play();
+    },
+    stop() {
+      stopTimer();
+      playing = false;
+      emit = null;
+    },
+    play() {
+      if (timer || !emit) return;
+      if (positionMs >= durationMs) positionMs = 0;
+      playing = true;
+      timer = setInterval(() => {
+        positionMs = Math.min(durationMs, positionMs + TICK_MS * speed);
+        if (positionMs >= durationMs) {
+          stopTimer();
+          playing = false;
+        }
+        emitFix();
+      }, TICK_MS);
+      onState?.(getState());
+    },
+    pause() {
+      stopTimer();
+      playing = false;
+      onState?.(getState());
+    },
+    seek(ms) {
+      positionMs = Math.max(0, Math.min(durationMs, ms));
+      emitFix();
+    },
+    setSpeed(next) {
+      speed = Math.max(0.1, next);
+      onState?.(getState());
+    },
+    getState,
+  };
+  return source;
+}
+
+/** Replays a recorded GPX/GeoJSON track. */
+export function createReplaySource(track: TrackingPath[], onState?: (state: PlaybackState) => void): PlaybackSource {
+  if (track.length < 2) throw new Error('Trilha muito curta para reproduzir.');
+  return createPlaybackSource('replay', timelineFromTrack(track), onState);
+}
+
+/** Drives along a route geometry at a steady speed. */
+export function createRouteSimulator(line: Location[], speedMps: number, onState?: (state: PlaybackState) => void): PlaybackSource {
+  if (line.length < 2) throw new Error('Nenhuma rota ativa para seguir.');
+  return createPlaybackSource('route', timelineAtSpeed(line, speedMps), onState);
+}
+
+export const isPlaybackSource = (source: LocationSource): source is PlaybackSource => source.kind !== 'browser';
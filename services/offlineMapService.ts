@@ -0,0 +1,98 @@
+
+import { Location } from '../types';
+
+export const TILE_URLS = {
+  light: "https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png",
+  dark: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+};
+
+/** Upper bound for one download, to keep storage use and data plans in check. */
+export const MAX_PRECACHE_TILES = 8000;
+
+const SUBDOMAINS = ['a', 'b', 'c', 'd'];
+
+export interface PrecacheProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch((error) => console.error("Service Worker Error:", error));
+}
+
+const tileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+const tileY = (lat: number, z: number) => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+/**
+ * Slippy-map tile URLs covering a square of `radiusKm` around `center` for
+ * every zoom in the range, using the same template as the `TileLayer`.
+ */
+export function tileUrlsForArea(center: Location, radiusKm: number, minZoom: number, maxZoom: number, template: string): string[] {
+  const dLat = radiusKm / 111.32;
+  const dLng = radiusKm / (111.32 * Math.cos((center.lat * Math.PI) / 180));
+  const retina = typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '';
+  const urls: string[] = [];
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const [x0, x1] = [tileX(center.lng - dLng, z), tileX(center.lng + dLng, z)];
+    const [y0, y1] = [tileY(center.lat + dLat, z), tileY(center.lat - dLat, z)];
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        urls.push(template
+          .replace('{s}', SUBDOMAINS[(x + y) % SUBDOMAINS.length])
+          .replace('{z}', String(z))
+          .replace('{x}', String(x))
+          .replace('{y}', String(y))
+          .replace('{r}', retina));
+      }
+    }
+  }
+  return urls;
+}
+
+async function postToWorker(message: unknown, onMessage: (data: any) => boolean): Promise<void> {
+  if (!('serviceWorker' in navigator)) throw new Error('Service worker indisponível neste navegador');
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) throw new Error('Service worker inativo');
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => {
+      if (onMessage(event.data)) {
+        channel.port1.close();
+        resolve();
+      }
+    };
+    registration.active!.postMessage(message, [channel.port2]);
+  });
+}
+
+/**
+ * Asks the service worker to download the tiles; tiles already cached are skipped.
+ */
+export async function precacheTiles(urls: string[], onProgress: (progress: PrecacheProgress) => void): Promise<PrecacheProgress> {
+  let result: PrecacheProgress = { done: 0, failed: 0, total: urls.length };
+  await postToWorker({ type: 'precache-tiles', urls: urls.slice(0, MAX_PRECACHE_TILES) }, (data) => {
+    result = { done: data.done, failed: data.failed, total: data.total };
+    onProgress(result);
+    return data.type === 'done';
+  });
+  return result;
+}
+
+export async function cachedTileCount(): Promise<number> {
+  let count = 0;
+  await postToWorker({ type: 'tile-count' }, (data) => {
+    count = data.count;
+    return true;
+  });
+  return count;
+}
+
+export async function clearTileCache(): Promise<void> {
+  await postToWorker({ type: 'clear-tiles' }, () => true);
+}
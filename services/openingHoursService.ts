@@ -0,0 +1,174 @@
+
+import { BusinessPoint, TimeRange, WeeklyHours } from '../types';
+
+const DAY_LABELS = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'];
+const PT_DAYS = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sab'];
+// Abreviações do OpenStreetMap (opening_hours), comuns em GeoJSON exportado
+const OSM_DAYS = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const FULL_DAY: TimeRange = { open: 0, close: 1440 };
+const DAY_MS = 86400000;
+
+const TIME_RANGE = /(\d{1,2})(?:[:h](\d{2}))?h?\s*(?:-|–|\ba\b|\bas\b|\bate\b)\s*(\d{1,2})(?:[:h](\d{2}))?h?/g;
+
+const simplify = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const toMinutes = (hours: string, minutes: string | undefined) => {
+  const h = Number(hours);
+  const m = Number(minutes ?? 0);
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) return NaN;
+  return h * 60 + m;
+};
+
+function parseDay(token: string): number {
+  const t = token.trim();
+  const index = t.length === 2 ? OSM_DAYS.indexOf(t) : PT_DAYS.indexOf(t.slice(0, 3));
+  if (index === -1) throw new Error(`Dia não reconhecido: "${token}"`);
+  return index;
+}
+
+function parseDays(text: string): number[] {
+  const t = text.replace(/[:.]/g, ' ').trim();
+  if (!t || /^(todos( os dias)?|todo dia|diariamente)$/.test(t)) return ALL_DAYS;
+  const days = new Set<number>();
+  t.split(/\s*(?:,|\be\b)\s*/).filter(Boolean).forEach((part) => {
+    const [from, to] = part.split(/\s*(?:-|–|\ba\b)\s*/);
+    const start = parseDay(from);
+    const end = to === undefined ? start : parseDay(to);
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === end) break;
+    }
+  });
+  return [...days];
+}
+
+function parseRanges(text: string): TimeRange[] {
+  if (/^(24\s*h(oras)?|24\/7)$/.test(text)) return [FULL_DAY];
+  if (/^(fechado|off|closed)$/.test(text)) return [];
+  const ranges: TimeRange[] = [];
+  const rest = text.replace(TIME_RANGE, (_, h1, m1, h2, m2) => {
+    const open = toMinutes(h1, m1);
+    const close = toMinutes(h2, m2);
+    if (Number.isNaN(open) || Number.isNaN(close)) throw new Error(`Horário inválido: "${text}"`);
+    ranges.push({ open, close });
+    return ' ';
+  });
+  if (ranges.length === 0 || !/^[\s,e]*$/.test(rest)) throw new Error(`Horário não reconhecido: "${text}"`);
+  return ranges;
+}
+
+/**
+ * Reads hours written the way people type them, e.g. "seg-sex 08:00-12:00,
+ * 14:00-18:00; sáb 8h-12h", "todos 18h-02h" or the OpenStreetMap form
+ * "Mo-Fr 08:00-18:00". Days left out are closed; a later part overrides an
+ * earlier one. Empty text means unknown hours.
+ */
+export function parseWeeklyHours(text: string): WeeklyHours | undefined {
+  const parts = simplify(text).split(/[;\n]+/).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) return undefined;
+  const week: WeeklyHours = ALL_DAYS.map(() => []);
+  parts.forEach((part) => {
+    const match = part.match(/\d|fechado|off|closed|24\/7/);
+    const split = match?.index ?? part.length;
+    const days = parseDays(part.slice(0, split));
+    const ranges = parseRanges(part.slice(split).trim());
+    days.forEach((d) => { week[d] = ranges; });
+  });
+  return week;
+}
+
+const formatMinutes = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const formatRanges = (ranges: TimeRange[]) => ranges.map(r => `${formatMinutes(r.open)}-${formatMinutes(r.close)}`).join(', ');
+
+/** Writes hours back in the form `parseWeeklyHours` reads, grouping consecutive days. */
+export function formatWeeklyHours(hours: WeeklyHours | undefined): string {
+  if (!hours) return '';
+  const text = hours.map(formatRanges);
+  if (text.every(t => t && t === text[0])) return `todos ${text[0]}`;
+  const parts: string[] = [];
+  // Segunda a domingo, a ordem em que as pessoas escrevem a semana
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  for (let i = 0; i < order.length; i++) {
+    if (!text[order[i]]) continue;
+    let j = i;
+    while (j + 1 < order.length && text[order[j + 1]] === text[order[i]]) j++;
+    const days = i === j ? DAY_LABELS[order[i]] : `${DAY_LABELS[order[i]]}-${DAY_LABELS[order[j]]}`;
+    parts.push(`${days} ${text[order[i]]}`);
+    i = j;
+  }
+  return parts.join('; ');
+}
+
+/** Absolute open intervals from the day before `at` to a week after it. */
+function intervalsAround(hours: WeeklyHours, at: number): [number, number][] {
+  const day = new Date(at);
+  day.setHours(0, 0, 0, 0);
+  const intervals: [number, number][] = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    const midnight = new Date(day);
+    midnight.setDate(day.getDate() + offset);
+    (hours[midnight.getDay()] ?? []).forEach(({ open, close }) => {
+      const start = midnight.getTime() + open * 60000;
+      const end = midnight.getTime() + (close > open ? close : close + 1440) * 60000;
+      intervals.push([start, end]);
+    });
+  }
+  return intervals;
+}
+
+export function isOpenAt(hours: WeeklyHours | undefined, at: number): boolean {
+  if (!hours) return true;
+  return intervalsAround(hours, at).some(([start, end]) => start <= at && at < end);
+}
+
+export interface OpenStatus {
+  open: boolean;
+  /** Closing time when open, next opening when closed; null if it never changes. */
+  changesAt: number | null;
+}
+
+export function openStatus(hours: WeeklyHours, at: number): OpenStatus {
+  const intervals = intervalsAround(hours, at);
+  const current = intervals.filter(([start, end]) => start <= at && at < end);
+  if (current.length > 0) {
+    // Emenda faixas seguidas (ex.: 18:00-24:00 e 00:00-02:00) para achar o fechamento real
+    let end = Math.max(...current.map(([, e]) => e));
+    for (let extended = true; extended;) {
+      extended = false;
+      intervals.forEach(([s, e]) => {
+        if (s <= end && e > end) {
+          end = e;
+          extended = true;
+        }
+      });
+    }
+    return { open: true, changesAt: end - at >= 6 * DAY_MS ? null : end };
+  }
+  const next = intervals.map(([start]) => start).filter(s => s > at);
+  return { open: false, changesAt: next.length ? Math.min(...next) : null };
+}
+
+const isAvailableAt = (business: BusinessPoint, at: number) =>
+  isOpenAt(business.openingHours, at) && isOpenAt(business.visitWindows, at);
+
+/**
+ * Earliest moment from `at` on when the business is open and inside its
+ * visit window, looking up to a week ahead. Null when that never happens.
+ */
+export function nextAvailableAt(business: BusinessPoint, at: number): number | null {
+  if (isAvailableAt(business, at)) return at;
+  const starts = [business.openingHours, business.visitWindows]
+    .flatMap(hours => hours ? intervalsAround(hours, at).map(([start]) => start) : [])
+    .filter(s => s > at)
+    .sort((a, b) => a - b);
+  return starts.find(s => isAvailableAt(business, s)) ?? null;
+}
+
+/** "14:00" for today, "sex 14:00" for another day. */
+export function formatOpeningTime(at: number, now: number): string {
+  const date = new Date(at);
+  const time = formatMinutes(date.getHours() * 60 + date.getMinutes());
+  return new Date(now).toDateString() === date.toDateString() ? time : `${DAY_LABELS[date.getDay()]} ${time}`;
+}
@@ -0,0 +1,108 @@
+
+import { STORES, putRecord, getAllRecords, deleteRecord } from './storageService';
+
+export interface OutboxAction<T = any> {
+  id: string;
+  type: string;
+  payload: T;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+  /** Refused by the server for good; kept for the user to see, never replayed. */
+  rejected?: boolean;
+}
+
+/**
+ * Thrown by a handler when the server refused the action itself (HTTP 4xx),
+ * so replaying it can never succeed.
+ */
+export class OutboxRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxRejectedError';
+  }
+}
+
+export type OutboxHandlers = Record<string, (payload: any) => Promise<void>>;
+
+export interface FlushResult {
+  sent: number;
+  remaining: number;
+  rejected: OutboxAction[];
+}
+
+let flushing: Promise<FlushResult> | null = null;
+
+/**
+ * Queues an action to run once the connection is back. Actions sharing a
+ * `key` replace each other, so only the latest one is replayed.
+ */
+export async function enqueueAction<T>(type: string, payload: T, key?: string): Promise<void> {
+  const action: OutboxAction<T> = {
+    id: key ? `${type}:${key}` : `${type}:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    payload,
+    createdAt: Date.now(),
+    attempts: 0,
+  };
+  try {
+    await putRecord(STORES.outbox, action);
+  } catch (error) {
+    console.error("Outbox Error:", error);
+  }
+}
+
+export async function listActions(): Promise<OutboxAction[]> {
+  try {
+    const actions = await getAllRecords<OutboxAction>(STORES.outbox);
+    return actions.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Outbox Error:", error);
+    return [];
+  }
+}
+
+// fetch rejeita com TypeError quando a rede falha antes de haver resposta
+const isConnectionError = (error: unknown) => !navigator.onLine || error instanceof TypeError;
+
+async function runQueue(handlers: OutboxHandlers): Promise<FlushResult> {
+  const actions = await listActions();
+  let sent = 0;
+  for (const action of actions) {
+    const handler = handlers[action.type];
+    if (!handler || action.rejected) continue;
+    // Sem conexão não adianta tentar, nem conta como tentativa
+    if (!navigator.onLine) break;
+    try {
+      await handler(action.payload);
+      await deleteRecord(STORES.outbox, action.id);
+      sent++;
+    } catch (error) {
+      if (isConnectionError(error)) break;
+      const lastError = error instanceof Error ? error.message : String(error);
+      await putRecord(STORES.outbox, { ...action, attempts: action.attempts + 1, lastError, rejected: error instanceof OutboxRejectedError });
+    }
+  }
+  const remaining = await listActions();
+  return { sent, remaining: remaining.length, rejected: remaining.filter(a => a.rejected) };
+}
+
+/** Removes the actions the server refused, once the user has seen them. */
+export async function discardRejectedActions(): Promise<void> {
+  try {
+    const rejected = (await listActions()).filter(a => a.rejected);
+    await Promise.all(rejected.map(a => deleteRecord(STORES.outbox, a.id)));
+  } catch (error) {
+    console.error("Outbox Error:", error);
+  }
+}
+
+/**
+ * Replays queued actions in order. Concurrent calls share the same run.
+ */
+export function flushOutbox(handlers: OutboxHandlers): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = runQueue(handlers).finally(() => { flushing = null; });
+  }
+  return flushing;
+}
@@ -0,0 +1,108 @@
+
+import { BusinessPoint, District, Location } from '../types';
+import { STORES, putRecord, getRecord } from './storageService';
+import { haversineDistance } from './geoUtils';
+
+/** Same-name places closer than this are treated as one even if their IDs differ. */
+const MATCH_RADIUS_M = 300;
+
+/** Where a city's businesses came from: the data provider or an imported customer list. */
+export type BusinessSource = 'ai' | 'import';
+
+interface CityPlaces {
+  id: string;
+  businesses: BusinessPoint[];
+  /** Absent on records saved before the source was kept. */
+  businessSource?: BusinessSource;
+  districts: District[];
+  updatedAt: number;
+}
+
+type Place = { id: string; name: string; lat: number; lng: number; missing?: boolean };
+
+/**
+ * Lower-cases and strips accents and punctuation, so "Tianguá" and
+ * "tiangua" compare equal.
+ */
+export const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// FNV-1a, enough to keep IDs short and stable.
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+/**
+ * Deterministic ID from the normalized name and coordinates rounded to
+ * ~100 m, so the same place gets the same ID on every fetch or import.
+ */
+export function stablePlaceId(kind: string, name: string, loc: Location): string {
+  return `${kind}-${hash(`${normalizeName(name)}|${loc.lat.toFixed(3)}|${loc.lng.toFixed(3)}`)}`;
+}
+
+/**
+ * Merges a fresh list into the known one. Matching entries keep their ID and
+ * recorded work (via `keep`), new ones are added and entries that vanished
+ * from the fresh list stay, flagged as `missing`.
+ */
+export function mergePlaces<T extends Place>(existing: T[], incoming: T[], keep: (prev: T, next: T) => T): T[] {
+  const unmatched = new Set(existing);
+  const merged = incoming.map((next) => {
+    const name = normalizeName(next.name);
+    const prev = existing.find(p => unmatched.has(p) && p.id === next.id)
+      ?? existing.find(p => unmatched.has(p) && normalizeName(p.name) === name && haversineDistance(p, next) <= MATCH_RADIUS_M);
+    if (!prev) return { ...next, missing: false };
+    unmatched.delete(prev);
+    return { ...keep(prev, next), id: prev.id, missing: false };
+  });
+  return [...merged, ...existing.filter(p => unmatched.has(p)).map(p => ({ ...p, missing: true }))];
+}
+
+export const mergeBusinesses = (existing: BusinessPoint[], incoming: BusinessPoint[]) =>
+  mergePlaces(existing, incoming, (prev, next) => ({
+    ...next,
+    status: prev.status ?? next.status,
+    // Horários digitados no app valem até a lista trazer os seus
+    openingHours: next.openingHours ?? prev.openingHours,
+    visitWindows: next.visitWindows ?? prev.visitWindows,
+  }));
+
+/**
+ * Merges a refresh from the same source; a list from another source replaces
+ * the old one instead, so AI bars do not linger as `missing` next to an
+ * authoritative imported list (or the other way round).
+ */
+export const refreshBusinesses = (
+  existing: BusinessPoint[],
+  existingSource: BusinessSource | undefined,
+  incoming: BusinessPoint[],
+  incomingSource: BusinessSource
+) => existingSource && existingSource !== incomingSource
+  ? incoming.map(b => ({ ...b, missing: false }))
+  : mergeBusinesses(existing, incoming);
+
+// A cobertura é recalculada a partir do trajeto do turno atual, então não vem do que estava salvo
+export const mergeDistricts = (existing: District[], incoming: District[]) =>
+  mergePlaces(existing, incoming, (_prev, next) => next);
+
+export async function loadCityPlaces(city: string): Promise<CityPlaces | null> {
+  try {
+    return (await getRecord<CityPlaces>(STORES.places, normalizeName(city))) || null;
+  } catch (error) {
+    console.error("Places Error:", error);
+    return null;
+  }
+}
+
+export async function saveCityPlaces(city: string, businesses: BusinessPoint[], businessSource: BusinessSource | undefined, districts: District[]): Promise<void> {
+  try {
+    await putRecord(STORES.places, { id: normalizeName(city), businesses, businessSource, districts, updatedAt: Date.now() });
+  } catch (error) {
+    console.error("Places Error:", error);
+  }
+}
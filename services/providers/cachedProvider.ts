@@ -0,0 +1,38 @@
+
+import { Location } from '../../types';
+import { DAY_MS, PersistentCache, createPersistentCache } from '../cacheService';
+import { CityInfo, LocationDataProvider, PlaceDiscovery } from './types';
+
+// Geocodificações quase nunca mudam; listas de pontos envelhecem mais rápido
+const geocodeCache = createPersistentCache<Location>({ namespace: 'geocode', label: 'Localizações buscadas', maxEntries: 300, ttlMs: 30 * DAY_MS });
+const suggestionCache = createPersistentCache<string[]>({ namespace: 'suggest', label: 'Sugestões de busca', maxEntries: 300, ttlMs: 7 * DAY_MS });
+const cityInfoCache = createPersistentCache<CityInfo>({ namespace: 'cityInfo', label: 'Dados das cidades', maxEntries: 50, ttlMs: 7 * DAY_MS });
+const placesCache = createPersistentCache<PlaceDiscovery>({ namespace: 'places', label: 'Pontos de interesse', maxEntries: 50, ttlMs: DAY_MS });
+
+const areaKey = (center: Location) => `${center.lat.toFixed(4)},${center.lng.toFixed(4)}`;
+
+/**
+ * Wraps a provider with the persistent caches. Keys include the provider id
+ * and `endpoint` (the servers it calls, when configurable), so switching
+ * providers or servers never serves another source's answers.
+ */
+export function withCache(provider: LocationDataProvider, endpoint = ''): LocationDataProvider {
+  const prefix = endpoint ? `${provider.id}@${endpoint}` : provider.id;
+  const cached = async <T>(cache: PersistentCache<T>, key: string, load: () => Promise<T>, keep: (value: T) => boolean = () => true): Promise<T> => {
+    const fullKey = `${prefix}:${key}`;
+    const hit = await cache.get(fullKey);
+    if (hit !== undefined) return hit;
+    const value = await load();
+    if (keep(value)) await cache.set(fullKey, value);
+    return value;
+  };
+
+  return {
+    id: provider.id,
+    geocode: (query) => cached(geocodeCache, query, () => provider.geocode(query)),
+    suggest: (query) => cached(suggestionCache, query, () => provider.suggest(query), s => s.length > 0),
+    // Respostas só com itens descartados não são guardadas, para tentar de novo
+    cityInfo: (center, placeName) => cached(cityInfoCache, areaKey(center), () => provider.cityInfo(center, placeName), i => i.districts.length > 0 || i.rejected.length === 0),
+    discoverPlaces: (center, placeName) => cached(placesCache, areaKey(center), () => provider.discoverPlaces(center, placeName), d => d.places.length > 0 || d.rejected.length === 0),
+  };
+}
@@ -0,0 +1,42 @@
+
+import { normalizeName } from '../placeService';
+import { haversineDistance } from '../geoUtils';
+import { SchemaError } from '../responseSchemas';
+import { FIXTURE_CITIES, FixtureCity } from './fixtures';
+import { LocationDataProvider } from './types';
+
+/**
+ * Serves the bundled fixtures without any network access, for demos and for
+ * working in areas without signal.
+ */
+export function createFixtureProvider(cities: FixtureCity[] = FIXTURE_CITIES): LocationDataProvider {
+  const places = () => cities.flatMap(c => [{ name: c.name, lat: c.center.lat, lng: c.center.lng }, ...c.districts]);
+
+  const nearest = (lat: number, lng: number) => cities.reduce((best, city) =>
+    haversineDistance(city.center, { lat, lng }) < haversineDistance(best.center, { lat, lng }) ? city : best);
+
+  return {
+    id: 'fixture',
+
+    async geocode(query) {
+      const q = normalizeName(query);
+      const hit = places().find(p => normalizeName(p.name) === q) || places().find(p => normalizeName(p.name).includes(q));
+      if (!hit) throw new SchemaError('$', 'local não encontrado nos dados locais');
+      return { lat: hit.lat, lng: hit.lng };
+    },
+
+    async suggest(query) {
+      const q = normalizeName(query);
+      return places().filter(p => normalizeName(p.name).includes(q)).slice(0, 5).map(p => p.name);
+    },
+
+    async discoverPlaces(center) {
+      return { places: nearest(center.lat, center.lng).bars, rejected: [] };
+    },
+
+    async cityInfo(center) {
+      const city = nearest(center.lat, center.lng);
+      return { cityName: city.name, cityPopulation: city.population, districts: city.districts, rejected: [] };
+    },
+  };
+}
@@ -0,0 +1,104 @@
+
+import { Location } from '../../types';
+import { RawBar, RawDistrict } from '../responseSchemas';
+import { haversineDistance } from '../geoUtils';
+import { FetchLike } from './types';
+import { GeminiApi } from './geminiProvider';
+
+export interface FixtureCity {
+  name: string;
+  center: Location;
+  population: string;
+  districts: RawDistrict[];
+  bars: RawBar[];
+}
+
+/** Recorded data for the home area, used by the offline provider and for testing the others. */
+export const FIXTURE_CITIES: FixtureCity[] = [
+  {
+    name: 'Tianguá',
+    center: { lat: -3.7322, lng: -40.9917 },
+    population: '76.000 habitantes',
+    districts: [
+      {
+        name: 'Arapá', lat: -3.6547, lng: -40.9652, description: 'Distrito ao norte da sede', population: '4.500 habitantes',
+        polygon: [{ lat: -3.6447, lng: -40.9752 }, { lat: -3.6447, lng: -40.9552 }, { lat: -3.6647, lng: -40.9552 }, { lat: -3.6647, lng: -40.9752 }],
+      },
+      { name: 'Caruataí', lat: -3.8034, lng: -41.0461, description: 'Distrito na descida da serra', population: '3.800 habitantes', polygon: undefined },
+      { name: 'Pindoguaba', lat: -3.8352, lng: -40.9548, description: 'Distrito ao sul, zona rural', population: '3.200 habitantes', polygon: undefined },
+      { name: 'Tabainha', lat: -3.6891, lng: -40.9083, description: 'Distrito na borda leste da serra', population: '2.900 habitantes', polygon: undefined },
+      { name: 'Sítio Boa Vista', lat: -3.7611, lng: -40.9702, description: 'Sítio', population: undefined, polygon: undefined },
+    ],
+    bars: [
+      { name: 'Bar do Zé', lat: -3.7301, lng: -40.9895, address: 'Rua Dr. Manoel do Carmo, 120' },
+      { name: 'Bar da Serra', lat: -3.7356, lng: -40.9941, address: 'Av. Moisés Moita, 455' },
+      { name: 'Espetinho do Arapá', lat: -3.6552, lng: -40.9660, address: undefined },
+      { name: 'Mercearia e Bar Caruataí', lat: -3.8029, lng: -41.0455, address: 'Rua Principal, 32' },
+    ],
+  },
+];
+
+const findCity = (center: Location) => FIXTURE_CITIES.reduce((best, city) =>
+  haversineDistance(city.center, center) < haversineDistance(best.center, center) ? city : best);
+
+const allPlaces = () => FIXTURE_CITIES.flatMap(c => [{ name: c.name, lat: c.center.lat, lng: c.center.lng }, ...c.districts]);
+
+// Distritos com contorno aparecem no Overpass como relation, numerados pela posição nos fixtures
+const allDistricts = () => FIXTURE_CITIES.flatMap(c => c.districts);
+const relationId = (d: RawDistrict) => allDistricts().indexOf(d) + 1;
+
+const jsonResponse = (body: unknown) => Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+
+/**
+ * `fetch` replacement answering Nominatim and Overpass requests from the
+ * fixtures in their wire format, so the HTTP provider runs without network.
+ */
+export const recordedFetch: FetchLike = (url, init) => {
+  const params = new URL(url.includes('?') ? url : `${url}?${init?.body || ''}`, 'http://fixture').searchParams;
+  if (url.includes('/search')) {
+    const q = (params.get('q') || '').split(',')[0].toLowerCase();
+    const limit = Number(params.get('limit')) || 10;
+    return jsonResponse(allPlaces()
+      .filter(p => p.name.toLowerCase().includes(q))
+      .slice(0, limit)
+      .map(p => ({ name: p.name, display_name: `${p.name}, Ceará, Brasil`, lat: String(p.lat), lon: String(p.lng) })));
+  }
+  if (url.includes('/lookup')) {
+    const ids = (params.get('osm_ids') || '').split(',');
+    return jsonResponse(allDistricts().filter(d => d.polygon && ids.includes(`R${relationId(d)}`)).map(d => ({
+      osm_type: 'relation',
+      osm_id: relationId(d),
+      geojson: { type: 'Polygon', coordinates: [[...d.polygon!, d.polygon![0]].map(p => [p.lng, p.lat])] },
+    })));
+  }
+  if (url.includes('/reverse')) {
+    const city = findCity({ lat: Number(params.get('lat')), lng: Number(params.get('lon')) });
+    return jsonResponse({ name: city.name, address: { town: city.name }, extratags: { population: city.population.replace(/\D/g, '') } });
+  }
+  const query = params.get('data') || '';
+  const [, lat, lng] = query.match(/around:\d+,(-?[\d.]+),(-?[\d.]+)/) || [];
+  const city = findCity({ lat: Number(lat), lng: Number(lng) });
+  const elements = query.includes('"place"')
+    ? city.districts.map(d => ({ ...(d.polygon ? { type: 'relation', id: relationId(d), center: { lat: d.lat, lon: d.lng } } : { type: 'node', lat: d.lat, lon: d.lng }), tags: { name: d.name, place: d.description === 'Sítio' ? 'isolated_dwelling' : 'village', ...(d.population ? { population: d.population.replace(/\D/g, '') } : {}) } }))
+    : city.bars.map(b => ({ type: 'node', lat: b.lat, lon: b.lng, tags: { name: b.name, amenity: 'bar' } }));
+  return jsonResponse({ elements });
+};
+
+/**
+ * Stand-in for the Gemini proxy answering from the fixtures, in the same JSON
+ * shapes the prompts ask for.
+ */
+export const recordedGeminiApi: GeminiApi = {
+  async cityData(center) {
+    const city = findCity(center);
+    return JSON.stringify({ cityName: city.name, cityPopulation: city.population, bars: city.bars, districts: city.districts });
+  },
+  async geocode(query) {
+    const hit = allPlaces().find(p => p.name.toLowerCase() === query.toLowerCase());
+    return JSON.stringify(hit ? { lat: hit.lat, lng: hit.lng } : {});
+  },
+  async suggest(query) {
+    const q = query.toLowerCase();
+    return JSON.stringify({ s: allPlaces().filter(p => p.name.toLowerCase().includes(q)).slice(0, 5).map(p => p.name) });
+  },
+};
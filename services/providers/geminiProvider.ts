@@ -0,0 +1,63 @@
+
+import { Location } from '../../types';
+import { requestCityData, requestGeocode, requestSuggestions } from '../geminiService';
+import { CityData, parseCityData, parseGeocode, parseSuggestions } from '../responseSchemas';
+import { LocationDataProvider } from './types';
+
+/** Raw Gemini answers, so recorded responses can stand in for the proxy offline. */
+export interface GeminiApi {
+  cityData(center: Location, placeName: string): Promise<string>;
+  geocode(query: string): Promise<string>;
+  suggest(query: string): Promise<string>;
+}
+
+const proxyApi: GeminiApi = {
+  cityData: requestCityData,
+  geocode: requestGeocode,
+  suggest: requestSuggestions,
+};
+
+/**
+ * Gemini-backed provider. City info and places come from one prompt, so the
+ * two calls for the same location share a single request.
+ */
+export function createGeminiProvider(api: GeminiApi = proxyApi): LocationDataProvider {
+  const inFlight = new Map<string, Promise<CityData>>();
+
+  const fetchCityData = (center: Location, placeName: string) => {
+    const key = `${center.lat.toFixed(4)},${center.lng.toFixed(4)}`;
+    if (!inFlight.has(key)) {
+      const request = api.cityData(center, placeName).then(parseCityData);
+      request.finally(() => inFlight.delete(key)).catch(() => {});
+      inFlight.set(key, request);
+    }
+    return inFlight.get(key)!;
+  };
+
+  return {
+    id: 'gemini',
+
+    async geocode(query) {
+      return parseGeocode(await api.geocode(query));
+    },
+
+    async suggest(query) {
+      return parseSuggestions(await api.suggest(query));
+    },
+
+    async discoverPlaces(center, placeName) {
+      const data = await fetchCityData(center, placeName);
+      return { places: data.bars, rejected: data.rejected.filter(r => r.startsWith('$.bars')) };
+    },
+
+    async cityInfo(center, placeName) {
+      const data = await fetchCityData(center, placeName);
+      return {
+        cityName: data.cityName,
+        cityPopulation: data.cityPopulation,
+        districts: data.districts,
+        rejected: data.rejected.filter(r => !r.startsWith('$.bars')),
+      };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+
+import { Location } from '../../types';
+import { AppSettings } from '../settingsService';
+import { CityData, sanitizeCityData } from '../responseSchemas';
+import { createGeminiProvider } from './geminiProvider';
+import { createNominatimProvider } from './nominatimProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { withCache } from './cachedProvider';
+import { LocationDataProvider, ProviderId } from './types';
+
+export type { LocationDataProvider, ProviderId } from './types';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini (IA)' },
+  { id: 'nominatim', label: 'OpenStreetMap (Nominatim/Overpass)' },
+  { id: 'fixture', label: 'Dados locais (offline)' },
+];
+
+function createBaseProvider(settings: AppSettings): LocationDataProvider {
+  switch (settings.provider) {
+    case 'nominatim':
+      return createNominatimProvider({ nominatimUrl: settings.nominatimUrl, overpassUrl: settings.overpassUrl });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider();
+  }
+}
+
+// Servidores consultados pelo provedor, para separar o cache de cada instância
+const providerEndpoint = (settings: AppSettings) =>
+  settings.provider === 'nominatim' ? [settings.nominatimUrl, settings.overpassUrl].map(u => u.trim().replace(/\/+$/, '')).join('|') : '';
+
+/** The provider chosen in settings, behind the persistent caches. */
+export const createProvider = (settings: AppSettings): LocationDataProvider =>
+  withCache(createBaseProvider(settings), providerEndpoint(settings));
+
+/**
+ * City info and places for a location, with the usual geographic checks.
+ */
+export async function fetchCityDataFrom(provider: LocationDataProvider, center: Location, placeName: string): Promise<CityData> {
+  const [info, discovery] = await Promise.all([
+    provider.cityInfo(center, placeName),
+    provider.discoverPlaces(center, placeName),
+  ]);
+  return sanitizeCityData({
+    cityName: info.cityName,
+    cityPopulation: info.cityPopulation,
+    bars: discovery.places,
+    districts: info.districts,
+    rejected: [...discovery.rejected, ...info.rejected],
+  }, center);
+}
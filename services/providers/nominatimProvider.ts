@@ -0,0 +1,158 @@
+
+import { Location } from '../../types';
+import { RawBar, RawDistrict, SchemaError, barSchema, districtSchema, geocodeSchema, lenientArray } from '../responseSchemas';
+import { FetchLike, LocationDataProvider } from './types';
+
+export interface NominatimOptions {
+  nominatimUrl: string;
+  overpassUrl: string;
+  fetchFn?: FetchLike;
+}
+
+/** Search radius (m) for the Overpass place and POI queries. */
+const SEARCH_RADIUS_M = 15000;
+
+const PLACE_TYPES = 'village|hamlet|suburb|neighbourhood|locality|isolated_dwelling';
+/** Most ids Nominatim accepts in one /lookup call. */
+const LOOKUP_BATCH = 50;
+// Simplifica os contornos (graus) para não encher o cache com milhares de vértices
+const POLYGON_THRESHOLD = 0.0005;
+const BAR_TYPES = 'bar|pub|biergarten|restaurant|cafe';
+
+interface OverpassElement {
+  type?: 'node' | 'way' | 'relation';
+  id?: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const osmKey = (type: string, id: number) => `${type[0].toUpperCase()}${id}`;
+
+/**
+ * Outer ring of a GeoJSON boundary as map points, without the closing
+ * repeat of the first point; for a multipolygon the largest part. Points and
+ * lines have no area and yield undefined.
+ */
+function boundaryRing(geojson: any): Location[] | undefined {
+  const rings: number[][][] = geojson?.type === 'Polygon' ? [geojson.coordinates?.[0]]
+    : geojson?.type === 'MultiPolygon' ? (geojson.coordinates || []).map((p: number[][][]) => p[0])
+    : [];
+  const ring = rings.filter(Array.isArray).sort((a, b) => b.length - a.length)[0];
+  if (!ring?.length) return undefined;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const open = first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+  return open.length >= 3 ? open.map(([lng, lat]) => ({ lat, lng })) : undefined;
+}
+
+function describeAddress(tags: Record<string, string>): string | undefined {
+  const street = [tags['addr:street'], tags['addr:housenumber']].filter(Boolean).join(', ');
+  return street || undefined;
+}
+
+/**
+ * Provider for OpenStreetMap-style services: Nominatim for geocoding and
+ * Overpass for communities and bars. Both base URLs are configurable so a
+ * self-hosted instance can be used.
+ */
+export function createNominatimProvider({ nominatimUrl, overpassUrl, fetchFn = fetch }: NominatimOptions): LocationDataProvider {
+  const base = trimSlash(nominatimUrl);
+
+  const getJson = async (url: string, init?: Parameters<FetchLike>[1]) => {
+    const res = await fetchFn(url, init);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  };
+
+  const search = (query: string, limit: number): Promise<any[]> =>
+    getJson(`${base}/search?format=jsonv2&countrycodes=br&limit=${limit}&q=${encodeURIComponent(query)}`)
+      .then(data => Array.isArray(data) ? data : []);
+
+  const overpass = async (filter: string, center: Location): Promise<OverpassElement[]> => {
+    const query = `[out:json][timeout:25];nwr[${filter}](around:${SEARCH_RADIUS_M},${center.lat},${center.lng});out center;`;
+    const data = await getJson(trimSlash(overpassUrl), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`,
+    });
+    return Array.isArray(data?.elements) ? data.elements : [];
+  };
+
+  // Contornos das comunidades mapeadas como área (ways e relations), pelo /lookup do Nominatim
+  const boundaries = async (elements: OverpassElement[]): Promise<Map<string, Location[]>> => {
+    const ids = elements.filter(el => el.type && el.type !== 'node' && el.id).map(el => osmKey(el.type!, el.id!));
+    const found = new Map<string, Location[]>();
+    for (let i = 0; i < ids.length; i += LOOKUP_BATCH) {
+      const batch = ids.slice(i, i + LOOKUP_BATCH).join(',');
+      const hits = await getJson(`${base}/lookup?format=jsonv2&polygon_geojson=1&polygon_threshold=${POLYGON_THRESHOLD}&osm_ids=${batch}`);
+      (Array.isArray(hits) ? hits : []).forEach((hit) => {
+        const ring = boundaryRing(hit?.geojson);
+        if (ring && hit.osm_type && hit.osm_id) found.set(osmKey(hit.osm_type, hit.osm_id), ring);
+      });
+    }
+    return found;
+  };
+
+  const toRaw = (el: OverpassElement) => ({
+    name: el.tags?.name,
+    lat: el.lat ?? el.center?.lat,
+    lng: el.lon ?? el.center?.lon,
+  });
+
+  return {
+    id: 'nominatim',
+
+    async geocode(query) {
+      const [hit] = await search(`${query}, Ceará`, 1);
+      if (!hit) throw new SchemaError('$', 'local não encontrado');
+      return geocodeSchema({ lat: hit.lat, lng: hit.lon });
+    },
+
+    async suggest(query) {
+      const hits = await search(`${query}, Ceará`, 5);
+      const names = hits.map(h => h.name || String(h.display_name || '').split(',')[0]).filter(Boolean);
+      return Array.from(new Set<string>(names));
+    },
+
+    async discoverPlaces(center) {
+      const elements = await overpass(`"amenity"~"^(${BAR_TYPES})$"`, center);
+      const { items, rejected } = lenientArray<RawBar>(barSchema)(
+        elements.map(el => ({ ...toRaw(el), address: el.tags && describeAddress(el.tags) })),
+        '$.bars'
+      );
+      return { places: items, rejected };
+    },
+
+    async cityInfo(center) {
+      const [reverse, elements] = await Promise.all([
+        getJson(`${base}/reverse?format=jsonv2&zoom=10&extratags=1&lat=${center.lat}&lon=${center.lng}`),
+        overpass(`"place"~"^(${PLACE_TYPES})$"`, center),
+      ]);
+      // Sem contornos, os distritos ainda servem como pontos
+      const shapes = await boundaries(elements).catch((error) => {
+        console.error("Nominatim Error:", error);
+        return new Map<string, Location[]>();
+      });
+      const { items, rejected } = lenientArray<RawDistrict>(districtSchema)(
+        elements.map(el => ({
+          ...toRaw(el),
+          description: el.tags?.place === 'isolated_dwelling' ? 'Sítio' : undefined,
+          population: el.tags?.population ? `${el.tags.population} habitantes` : undefined,
+          polygon: el.type && el.id ? shapes.get(osmKey(el.type, el.id)) : undefined,
+        })),
+        '$.districts'
+      );
+      const address = reverse?.address || {};
+      const population = reverse?.extratags?.population;
+      return {
+        cityName: address.city || address.town || address.municipality || reverse?.name || undefined,
+        cityPopulation: population ? `${population} habitantes` : undefined,
+        districts: items,
+        rejected,
+      };
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGeminiProvider } from './geminiProvider';
+import { createNominatimProvider } from './nominatimProvider';
+import { fetchCityDataFrom } from './index';
+import { FIXTURE_CITIES, recordedFetch, recordedGeminiApi } from './fixtures';
+import { LocationDataProvider } from './types';
+
+const TIANGUA = FIXTURE_CITIES[0];
+
+const providers: [string, LocationDataProvider][] = [
+  ['nominatim', createNominatimProvider({ nominatimUrl: 'https://nominatim.test', overpassUrl: 'https://overpass.test/api/interpreter', fetchFn: recordedFetch })],
+  ['gemini', createGeminiProvider(recordedGeminiApi)],
+];
+
+providers.forEach(([name, provider]) => {
+  test(`${name}: geocodes a recorded district`, async () => {
+    const loc = await provider.geocode('Arapá');
+    const arapa = TIANGUA.districts.find(d => d.name === 'Arapá')!;
+    assert.ok(Math.abs(loc.lat - arapa.lat) < 1e-4 && Math.abs(loc.lng - arapa.lng) < 1e-4);
+  });
+
+  test(`${name}: suggests places by prefix`, async () => {
+    assert.ok((await provider.suggest('Tab')).some(s => s.includes('Tabainha')));
+  });
+
+  test(`${name}: returns the recorded bars and districts for the city`, async () => {
+    const data = await fetchCityDataFrom(provider, TIANGUA.center, 'Tianguá');
+    assert.equal(data.cityName, 'Tianguá');
+    assert.deepEqual(data.bars.map(b => b.name).sort(), TIANGUA.bars.map(b => b.name).sort());
+    assert.deepEqual(data.districts.map(d => d.name).sort(), TIANGUA.districts.map(d => d.name).sort());
+  });
+});
+
+test('nominatim: fills district polygons from the recorded boundaries', async () => {
+  const [, nominatim] = providers[0];
+  const { districts } = await nominatim.cityInfo(TIANGUA.center, 'Tianguá');
+  const arapa = TIANGUA.districts.find(d => d.name === 'Arapá')!;
+  assert.deepEqual(districts.find(d => d.name === 'Arapá')?.polygon, arapa.polygon);
+  assert.equal(districts.find(d => d.name === 'Tabainha')?.polygon, undefined);
+});
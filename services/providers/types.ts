@@ -0,0 +1,32 @@
+
+import { Location } from '../../types';
+import { RawBar, RawDistrict } from '../responseSchemas';
+
+export interface CityInfo {
+  cityName?: string;
+  cityPopulation?: string;
+  districts: RawDistrict[];
+  rejected: string[];
+}
+
+export interface PlaceDiscovery {
+  places: RawBar[];
+  rejected: string[];
+}
+
+/**
+ * Source of geocoding, search suggestions and points of interest. Methods
+ * throw `SchemaError` for malformed data and plain errors for network failures.
+ */
+export interface LocationDataProvider {
+  id: ProviderId;
+  geocode(query: string): Promise<Location>;
+  suggest(query: string): Promise<string[]>;
+  discoverPlaces(center: Location, placeName: string): Promise<PlaceDiscovery>;
+  cityInfo(center: Location, placeName: string): Promise<CityInfo>;
+}
+
+export type ProviderId = 'gemini' | 'nominatim' | 'fixture';
+
+/** Minimal `fetch` signature so HTTP providers can be fed recorded responses. */
+export type FetchLike = (url: string, init?: { headers?: Record<string, string>; method?: string; body?: string }) => Promise<{ ok: boolean; status: number; json(): Promise<any> }>;
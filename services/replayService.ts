@@ -0,0 +1,79 @@
+
+import { CheckIn, Location, ShiftTransition, TrackingPath, VisitRecord } from '../types';
+import { bearing, haversineDistance } from './geoUtils';
+import { SHIFT_STATE_LABELS } from './shiftService';
+
+export type ReplayEventKind = 'visit' | 'stay' | 'break' | 'idle';
+
+/** Something that happened during a shift, placed on the replay timeline. */
+export interface ReplayEvent {
+  id: string;
+  kind: ReplayEventKind;
+  label: string;
+  startAt: number;
+  /** End of a stay, break or idle period; absent for instant events. */
+  endAt?: number;
+  color: string;
+}
+
+export interface ReplayInput {
+  track: TrackingPath[];
+  visits: VisitRecord[];
+  checkIns: CheckIn[];
+  transitions: ShiftTransition[];
+}
+
+// Abaixo disso a direção anterior vale mais que o ruído do GPS
+const MIN_HEADING_MOVE_M = 3;
+
+const formatMinutes = (ms: number) => `${Math.max(1, Math.round(ms / 60000))} min`;
+
+/**
+ * Visits, stays at businesses (from check-ins) and breaks or idle periods
+ * that fall inside the track's time span, in chronological order.
+ */
+export function buildReplayEvents({ track, visits, checkIns, transitions }: ReplayInput): ReplayEvent[] {
+  if (track.length < 2) return [];
+  const start = track[0].timestamp;
+  const end = track[track.length - 1].timestamp;
+  const inShift = (at: number) => at >= start && at <= end;
+  const events: ReplayEvent[] = [];
+
+  checkIns.filter(c => inShift(c.arrivedAt)).forEach((c) => {
+    const endAt = Math.min(c.departedAt ?? end, end);
+    events.push({ id: `stay:${c.id}`, kind: 'stay', label: `${c.businessName} · ${formatMinutes(endAt - c.arrivedAt)}`, startAt: c.arrivedAt, endAt, color: '#2563eb' });
+  });
+
+  visits.filter(v => inShift(v.timestamp)).forEach((v) => {
+    events.push({
+      id: `visit:${v.id}`,
+      kind: 'visit',
+      label: `${v.businessName} · ${v.outcome === 'success' ? 'sucesso' : v.failureReason || 'sem sucesso'}`,
+      startAt: v.timestamp,
+      color: v.outcome === 'success' ? '#22c55e' : '#ef4444',
+    });
+  });
+
+  transitions.forEach((t, i) => {
+    if (t.state !== 'onBreak' && t.state !== 'idle') return;
+    const endAt = Math.min(transitions[i + 1]?.at ?? end, end);
+    if (endAt <= start || t.at >= end) return;
+    const startAt = Math.max(t.at, start);
+    events.push({
+      id: `shift:${t.at}`,
+      kind: t.state === 'onBreak' ? 'break' : 'idle',
+      label: `${SHIFT_STATE_LABELS[t.state]} · ${formatMinutes(endAt - startAt)}`,
+      startAt,
+      endAt,
+      color: t.state === 'onBreak' ? '#64748b' : '#f59e0b',
+    });
+  });
+
+  return events.sort((a, b) => a.startAt - b.startAt);
+}
+
+/**
+ * Heading of the vehicle arriving at `to`, or `previous` when it barely moved.
+ */
+export const replayHeading = (from: Location | null, to: Location, previous: number) =>
+  from && haversineDistance(from, to) >= MIN_HEADING_MOVE_M ? bearing(from, to) : previous;
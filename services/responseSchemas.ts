@@ -0,0 +1,193 @@
+
+import { Location } from '../types';
+import { haversineDistance } from './geoUtils';
+import { normalizeName } from './placeService';
+
+/**
+ * Raised when a provider response does not match the expected shape.
+ */
+export class SchemaError extends Error {
+  constructor(public path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export interface Lenient<T> {
+  items: T[];
+  rejected: string[];
+}
+
+export const text = (): Schema<string> => (value, path = '$') => {
+  if (typeof value !== 'string' || !value.trim()) throw new SchemaError(path, 'texto ausente');
+  return value.trim();
+};
+
+const coordinate = (limit: number): Schema<number> => (value, path = '$') => {
+  const n = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) throw new SchemaError(path, 'coordenada ausente');
+  if (Math.abs(n) > limit) throw new SchemaError(path, 'coordenada fora do intervalo');
+  return n;
+};
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value == null || value === '' ? undefined : schema(value, path);
+
+export const object = <S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => (value, path = '$') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'objeto esperado');
+  const out: any = {};
+  Object.keys(shape).forEach((key) => {
+    out[key] = shape[key]((value as any)[key], `${path}.${key}`);
+  });
+  return out;
+};
+
+/**
+ * Validates every item on its own: invalid entries are dropped and reported
+ * instead of failing the whole response. A missing list counts as empty.
+ */
+export const lenientArray = <T>(item: Schema<T>): Schema<Lenient<T>> => (value, path = '$') => {
+  if (value == null) return { items: [], rejected: [`${path}: lista ausente`] };
+  if (!Array.isArray(value)) return { items: [], rejected: [`${path}: lista esperada`] };
+  const result: Lenient<T> = { items: [], rejected: [] };
+  value.forEach((entry, i) => {
+    try {
+      result.items.push(item(entry, `${path}[${i}]`));
+    } catch (error) {
+      result.rejected.push(error instanceof Error ? error.message : String(error));
+    }
+  });
+  return result;
+};
+
+export const latitude = coordinate(90);
+export const longitude = coordinate(180);
+
+export const barSchema = object({
+  name: text(),
+  lat: latitude,
+  lng: longitude,
+  address: optional(text()),
+});
+
+const point = object({ lat: latitude, lng: longitude });
+
+/** Boundary ring; fewer than three points cannot enclose an area. */
+export const polygonSchema: Schema<Location[]> = (value, path = '$') => {
+  if (!Array.isArray(value) || value.length < 3) throw new SchemaError(path, 'polígono inválido');
+  return value.map((p, i) => point(p, `${path}[${i}]`));
+};
+
+export const districtSchema = object({
+  name: text(),
+  lat: latitude,
+  lng: longitude,
+  description: optional(text()),
+  population: optional(text()),
+  polygon: optional(polygonSchema),
+});
+
+export const cityDataSchema = object({
+  cityName: optional(text()),
+  cityPopulation: optional(text()),
+  bars: lenientArray(barSchema),
+  districts: lenientArray(districtSchema),
+});
+
+export const geocodeSchema = object({ lat: latitude, lng: longitude });
+
+export const suggestionsSchema = object({ s: lenientArray(text()) });
+
+export type RawBar = Infer<typeof barSchema>;
+export type RawDistrict = Infer<typeof districtSchema>;
+
+export interface CityData {
+  cityName?: string;
+  cityPopulation?: string;
+  bars: RawBar[];
+  districts: RawDistrict[];
+  /** Human-readable reasons for every item that was dropped. */
+  rejected: string[];
+}
+
+/** Places further than this from the searched point are discarded. */
+const MAX_CITY_RADIUS_M = 40000;
+/** Same-name places this close together are collapsed into one. */
+const DUPLICATE_RADIUS_M = 100;
+
+// Ceará com folga para as cidades da divisa com o Piauí
+const CEARA_BOUNDS = { minLat: -8.0, maxLat: -2.5, minLng: -42.0, maxLng: -37.0 };
+
+export function parseJson<T>(raw: string | undefined, schema: Schema<T>): T {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw || '');
+  } catch {
+    throw new SchemaError('$', 'JSON inválido');
+  }
+  return schema(data);
+}
+
+/**
+ * Drops items that are too far from `center` and collapses duplicates.
+ */
+function sanitizePlaces<T extends { name: string; lat: number; lng: number }>(items: T[], center: Location, label: string, rejected: string[]): T[] {
+  const kept: T[] = [];
+  items.forEach((item) => {
+    if (haversineDistance(center, item) > MAX_CITY_RADIUS_M) {
+      rejected.push(`${label} "${item.name}": fora da área pesquisada`);
+      return;
+    }
+    const name = normalizeName(item.name);
+    if (kept.some(k => normalizeName(k.name) === name && haversineDistance(k, item) <= DUPLICATE_RADIUS_M)) {
+      rejected.push(`${label} "${item.name}": duplicado`);
+      return;
+    }
+    kept.push(item);
+  });
+  return kept;
+}
+
+/**
+ * Applies the geographic sanity checks to data coming from any provider.
+ */
+export function sanitizeCityData(data: CityData, center: Location): CityData {
+  const rejected = [...data.rejected];
+  return {
+    ...data,
+    bars: sanitizePlaces(data.bars, center, 'Ponto', rejected),
+    districts: sanitizePlaces(data.districts, center, 'Distrito', rejected),
+    rejected,
+  };
+}
+
+export function assertInServiceArea(loc: Location): Location {
+  const { minLat, maxLat, minLng, maxLng } = CEARA_BOUNDS;
+  if (loc.lat < minLat || loc.lat > maxLat || loc.lng < minLng || loc.lng > maxLng) {
+    throw new SchemaError('$', 'local fora do Ceará');
+  }
+  return loc;
+}
+
+export function parseCityData(raw: string | undefined): CityData {
+  const data = parseJson(raw, cityDataSchema);
+  return {
+    cityName: data.cityName,
+    cityPopulation: data.cityPopulation,
+    bars: data.bars.items,
+    districts: data.districts.items,
+    rejected: [...data.bars.rejected, ...data.districts.rejected],
+  };
+}
+
+export function parseGeocode(raw: string | undefined): Location {
+  return parseJson(raw, geocodeSchema);
+}
+
+export function parseSuggestions(raw: string | undefined): string[] {
+  const { s } = parseJson(raw, suggestionsSchema);
+  return Array.from(new Set(s.items));
+}
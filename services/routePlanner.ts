@@ -0,0 +1,151 @@
+
+import { Location, PlannedStop } from '../types';
+import { Router } from './routingService';
+
+export interface PlannedRoute {
+  stops: PlannedStop[];
+  /** Stops that cannot be visited before the end of the day. */
+  skipped: PlannedStop[];
+  source: Router['id'] | 'straight-line';
+}
+
+/**
+ * Earliest moment from `at` on when a stop can be visited, or null when it
+ * cannot. Stops without opening hours just return `at`.
+ */
+export type AvailabilityFn<T> = (stop: T, at: number) => number | null;
+
+export interface PlanOptions {
+  departAt?: number;
+  availableAt?: AvailabilityFn<PlannedStop>;
+}
+
+// Tempo parado em cada visita antes de seguir para a próxima
+const VISIT_SECONDS = 10 * 60;
+
+/**
+ * Travel time in seconds from `from` to each target, from the router when it
+ * answers and estimated from straight-line distance otherwise.
+ */
+export async function fetchTravelTimes(router: Router, from: Location, targets: Location[]): Promise<number[]> {
+  if (targets.length === 0) return [];
+  const { matrix } = await router.durations([from, ...targets], [0]);
+  return matrix[0].slice(1);
+}
+
+const endOfDay = (at: number) => {
+  const d = new Date(at);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+export interface ReachableStop {
+  index: number;
+  /** When the visit can start: the arrival, or the opening time if it is later. */
+  startAt: number;
+  waitSeconds: number;
+}
+
+/**
+ * Picks the first candidate, in preference order, that is open on arrival.
+ * When none is, postpones to the one that opens soonest today. Returns null
+ * when every candidate stays closed for the rest of the day.
+ */
+export function pickReachableStop<T>(candidates: T[], travelSeconds: number[], departAt: number, availableAt: AvailabilityFn<T>): ReachableStop | null {
+  const until = endOfDay(departAt);
+  let soonest: ReachableStop | null = null;
+  for (let index = 0; index < candidates.length; index++) {
+    const arrival = departAt + travelSeconds[index] * 1000;
+    const startAt = availableAt(candidates[index], arrival);
+    if (startAt === null || startAt > until) continue;
+    const option = { index, startAt, waitSeconds: (startAt - arrival) / 1000 };
+    if (startAt === arrival) return option;
+    if (!soonest || startAt < soonest.startAt) soonest = option;
+  }
+  return soonest;
+}
+
+/**
+ * Walks the tour in order from `departAt`, postponing stops that would be
+ * closed on arrival and dropping those that stay closed for the day.
+ */
+function scheduleTour(tour: number[], matrix: number[][], stops: PlannedStop[], departAt: number, availableAt: AvailabilityFn<PlannedStop>) {
+  const remaining = tour.slice(1);
+  const scheduled: PlannedStop[] = [];
+  let current = 0;
+  let clock = departAt;
+  while (remaining.length > 0) {
+    const pick = pickReachableStop(remaining.map(i => stops[i - 1]), remaining.map(i => matrix[current][i]), clock, availableAt);
+    if (!pick) break;
+    const [node] = remaining.splice(pick.index, 1);
+    scheduled.push({ ...stops[node - 1], eta: pick.startAt });
+    current = node;
+    clock = pick.startAt + VISIT_SECONDS * 1000;
+  }
+  return { stops: scheduled, skipped: remaining.map(i => stops[i - 1]) };
+}
+
+/**
+ * Greedy open tour starting at index 0.
+ */
+function nearestNeighbourTour(matrix: number[][]): number[] {
+  const visited = new Set<number>([0]);
+  const tour = [0];
+  while (tour.length < matrix.length) {
+    const from = tour[tour.length - 1];
+    let next = -1;
+    for (let j = 0; j < matrix.length; j++) {
+      if (!visited.has(j) && (next === -1 || matrix[from][j] < matrix[from][next])) next = j;
+    }
+    visited.add(next);
+    tour.push(next);
+  }
+  return tour;
+}
+
+const tourCost = (tour: number[], matrix: number[][]) =>
+  tour.reduce((sum, node, i) => i === 0 ? 0 : sum + matrix[tour[i - 1]][node], 0);
+
+/**
+ * 2-opt improvement for an open tour with a fixed start. Segment reversal is
+ * evaluated on the whole cost because router durations are not symmetric.
+ */
+function twoOpt(tour: number[], matrix: number[][]): number[] {
+  let best = tour;
+  let bestCost = tourCost(best, matrix);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const cost = tourCost(candidate, matrix);
+        if (cost < bestCost - 1e-6) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Orders the given stops into a short visiting sequence starting from `start`.
+ * Uses the router's travel times when available, straight-line distance otherwise.
+ * With `availableAt`, stops closed on arrival are moved later in the day.
+ */
+export async function planRoute(router: Router, start: Location, stops: PlannedStop[], options: PlanOptions = {}): Promise<PlannedRoute> {
+  const { departAt = Date.now(), availableAt = (_stop, at) => at } = options;
+  if (stops.length === 0) return { stops, skipped: [], source: 'straight-line' };
+
+  const points: Location[] = [start, ...stops];
+  const { matrix, estimated } = await router.durations(points);
+  const tour = twoOpt(nearestNeighbourTour(matrix), matrix);
+
+  return {
+    ...scheduleTour(tour, matrix, stops, departAt, availableAt),
+    source: estimated ? 'straight-line' : router.id,
+  };
+}
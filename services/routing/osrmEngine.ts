@@ -0,0 +1,127 @@
+
+import { Location, RouteStep } from '../../types';
+import { haversineDistance } from '../geoUtils';
+import { FetchLike } from '../providers/types';
+import { RoutingEngine, TravelProfile } from './types';
+
+export interface OsrmOptions {
+  /** Server origin. A `{profile}` placeholder picks one server per profile (see `OSRM_SERVERS`). */
+  baseUrl: string;
+  profile: TravelProfile;
+  fetchFn?: FetchLike;
+}
+
+// O OSRM só lê o perfil do caminho da URL; quem escolhe o perfil de fato é o arquivo carregado no servidor
+const OSRM_PROFILES: Record<TravelProfile, string> = { car: 'driving', motorbike: 'driving', walking: 'foot' };
+
+/**
+ * Value of `{profile}` in the server URL, named as on routing.openstreetmap.de
+ * (`routed-car`, `routed-foot`). OSRM has no motorbike profile, so motorbikes
+ * follow the car server and only their speed factor differs.
+ */
+export const OSRM_SERVERS: Record<TravelProfile, string> = { car: 'car', motorbike: 'car', walking: 'foot' };
+
+/** Whether the server computes this profile's own routes, rather than car routes. */
+export const osrmServesProfile = (baseUrl: string, profile: TravelProfile) =>
+  OSRM_SERVERS[profile] === OSRM_SERVERS.car ? profile === 'car' : baseUrl.includes('{profile}');
+
+const MODIFIER_TEXT: Record<string, string> = {
+  'uturn': 'faça o retorno',
+  'sharp right': 'vire acentuadamente à direita',
+  'right': 'vire à direita',
+  'slight right': 'mantenha-se à direita',
+  'straight': 'siga em frente',
+  'slight left': 'mantenha-se à esquerda',
+  'left': 'vire à esquerda',
+  'sharp left': 'vire acentuadamente à esquerda',
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Turns an OSRM maneuver into a short Portuguese instruction.
+ */
+export function describeManeuver(type: string, modifier: string | undefined, name: string, exit?: number): string {
+  const street = name ? ` na ${name}` : '';
+  switch (type) {
+    case 'depart':
+      return `Siga${name ? ` pela ${name}` : ' em frente'}`;
+    case 'arrive':
+      return 'Você chegou ao destino';
+    case 'roundabout':
+    case 'rotary':
+      return exit ? `Na rotatória, pegue a ${exit}ª saída${street}` : `Entre na rotatória${street}`;
+    case 'continue':
+    case 'new name':
+      return `Continue${street || ' em frente'}`;
+    default:
+      return capitalize(MODIFIER_TEXT[modifier || 'straight'] || 'siga em frente') + street;
+  }
+}
+
+/**
+ * Maps every step's maneuver location to the nearest vertex of the route
+ * geometry, scanning forward so indices stay monotonic.
+ */
+function parseSteps(legs: any[], points: [number, number][]): RouteStep[] {
+  const steps: RouteStep[] = [];
+  let searchFrom = 0;
+  legs.flatMap(leg => leg.steps || []).forEach((step: any) => {
+    const [lng, lat] = step.maneuver.location;
+    const location = { lat, lng };
+    let geometryIndex = searchFrom;
+    let bestDistance = Infinity;
+    for (let i = searchFrom; i < points.length; i++) {
+      const d = haversineDistance(location, { lat: points[i][0], lng: points[i][1] });
+      if (d < bestDistance) {
+        bestDistance = d;
+        geometryIndex = i;
+      }
+      if (d < 1) break;
+    }
+    searchFrom = geometryIndex;
+    steps.push({
+      instruction: describeManeuver(step.maneuver.type, step.maneuver.modifier, step.name, step.maneuver.exit),
+      type: step.maneuver.type,
+      modifier: step.maneuver.modifier,
+      location,
+      geometryIndex,
+    });
+  });
+  return steps;
+}
+
+export function createOsrmEngine({ baseUrl, profile, fetchFn = fetch }: OsrmOptions): RoutingEngine {
+  const base = baseUrl.replace('{profile}', OSRM_SERVERS[profile]).replace(/\/+$/, '');
+  const osrmProfile = OSRM_PROFILES[profile];
+  const coords = (points: Location[]) => points.map(p => `${p.lng},${p.lat}`).join(';');
+
+  const getJson = async (url: string) => {
+    const res = await fetchFn(url);
+    const data = await res.json();
+    if (!res.ok || data?.code !== 'Ok') throw new Error(data?.message || `HTTP ${res.status}`);
+    return data;
+  };
+
+  return {
+    id: 'osrm',
+    async route(start, end) {
+      const data = await getJson(`${base}/route/v1/${osrmProfile}/${coords([start, end])}?overview=full&geometries=geojson&steps=true`);
+      const route = data.routes?.[0];
+      if (!route) throw new Error('nenhuma rota encontrada');
+      const points: [number, number][] = route.geometry.coordinates.map((coord: [number, number]) => [coord[1], coord[0]]);
+      return {
+        points,
+        steps: parseSteps(route.legs || [], points),
+        distanceMeters: route.distance,
+        durationSeconds: route.duration,
+      };
+    },
+    async durations(points, sources) {
+      const data = await getJson(`${base}/table/v1/${osrmProfile}/${coords(points)}?annotations=duration&sources=${sources.join(';')}`);
+      const matrix: (number | null)[][] | undefined = data.durations;
+      if (!matrix || matrix.some(row => row.some(v => v == null))) throw new Error('matriz de tempos incompleta');
+      return matrix as number[][];
+    },
+  };
+}
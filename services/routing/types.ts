@@ -0,0 +1,26 @@
+
+import { Location, RouteStep } from '../../types';
+
+export type RoutingBackend = 'osrm' | 'valhalla';
+
+export type TravelProfile = 'car' | 'motorbike' | 'walking';
+
+/** A route as the routing engine returned it, before speed adjustments. */
+export interface RawRoute {
+  /** Geometry as `[lat, lng]` pairs. */
+  points: [number, number][];
+  steps: RouteStep[];
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/**
+ * Street routing for one travel profile. Methods throw when the server is
+ * unreachable or has no answer, so the caller can fall back.
+ */
+export interface RoutingEngine {
+  id: RoutingBackend;
+  route(start: Location, end: Location): Promise<RawRoute>;
+  /** Travel times in seconds, one row per source index and one column per point. */
+  durations(points: Location[], sources: number[]): Promise<number[][]>;
+}
@@ -0,0 +1,134 @@
+
+import { Location, RouteStep } from '../../types';
+import { FetchLike } from '../providers/types';
+import { RoutingEngine, TravelProfile } from './types';
+
+export interface ValhallaOptions {
+  baseUrl: string;
+  profile: TravelProfile;
+  fetchFn?: FetchLike;
+}
+
+const COSTING: Record<TravelProfile, string> = { car: 'auto', motorbike: 'motorcycle', walking: 'pedestrian' };
+
+/**
+ * Valhalla maneuver types in OSRM terms, so the HUD icons keep working.
+ * Types not listed are plain turns with no modifier.
+ */
+const MANEUVERS: Record<number, { type: string; modifier?: string }> = {
+  1: { type: 'depart' }, 2: { type: 'depart' }, 3: { type: 'depart' },
+  4: { type: 'arrive' }, 5: { type: 'arrive' }, 6: { type: 'arrive' },
+  7: { type: 'new name', modifier: 'straight' },
+  8: { type: 'continue', modifier: 'straight' },
+  9: { type: 'turn', modifier: 'slight right' },
+  10: { type: 'turn', modifier: 'right' },
+  11: { type: 'turn', modifier: 'sharp right' },
+  12: { type: 'turn', modifier: 'uturn' },
+  13: { type: 'turn', modifier: 'uturn' },
+  14: { type: 'turn', modifier: 'sharp left' },
+  15: { type: 'turn', modifier: 'left' },
+  16: { type: 'turn', modifier: 'slight left' },
+  17: { type: 'on ramp', modifier: 'straight' },
+  18: { type: 'on ramp', modifier: 'slight right' },
+  19: { type: 'on ramp', modifier: 'slight left' },
+  20: { type: 'off ramp', modifier: 'slight right' },
+  21: { type: 'off ramp', modifier: 'slight left' },
+  22: { type: 'fork', modifier: 'straight' },
+  23: { type: 'fork', modifier: 'slight right' },
+  24: { type: 'fork', modifier: 'slight left' },
+  25: { type: 'merge', modifier: 'straight' },
+  26: { type: 'roundabout' },
+  27: { type: 'turn', modifier: 'straight' },
+};
+
+/** Decodes Valhalla's encoded polyline (precision 6) into `[lat, lng]` pairs. */
+export function decodePolyline6(encoded: string): [number, number][] {
+  const points: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    points.push([lat / 1e6, lng / 1e6]);
+  }
+  return points;
+}
+
+/**
+ * Engine for a Valhalla server. Instructions come already written in
+ * Portuguese from the server.
+ */
+export function createValhallaEngine({ baseUrl, profile, fetchFn = fetch }: ValhallaOptions): RoutingEngine {
+  const base = baseUrl.replace(/\/+$/, '');
+  const costing = COSTING[profile];
+  const toLocation = (p: Location) => ({ lat: p.lat, lon: p.lng });
+
+  const post = async (path: string, body: unknown) => {
+    const res = await fetchFn(`${base}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+    return data;
+  };
+
+  return {
+    id: 'valhalla',
+    async route(start, end) {
+      const data = await post('route', {
+        locations: [toLocation(start), toLocation(end)],
+        costing,
+        directions_options: { units: 'kilometers', language: 'pt-BR' },
+      });
+      const legs: any[] = data.trip?.legs ?? [];
+      if (legs.length === 0) throw new Error('nenhuma rota encontrada');
+      const points: [number, number][] = [];
+      const steps: RouteStep[] = [];
+      legs.forEach((leg) => {
+        const offset = points.length;
+        points.push(...decodePolyline6(leg.shape));
+        (leg.maneuvers ?? []).forEach((m: any) => {
+          const geometryIndex = Math.min(offset + m.begin_shape_index, points.length - 1);
+          const [lat, lng] = points[geometryIndex];
+          steps.push({
+            // O Valhalla já encerra a frase com ponto; o app acrescenta o seu ao falar
+            instruction: String(m.instruction ?? '').replace(/\.$/, ''),
+            ...(MANEUVERS[m.type] ?? { type: 'turn' }),
+            location: { lat, lng },
+            geometryIndex,
+          });
+        });
+      });
+      return {
+        points,
+        steps,
+        distanceMeters: data.trip.summary.length * 1000,
+        durationSeconds: data.trip.summary.time,
+      };
+    },
+    async durations(points, sources) {
+      const data = await post('sources_to_targets', {
+        sources: sources.map(i => toLocation(points[i])),
+        targets: points.map(toLocation),
+        costing,
+      });
+      const rows: any[][] | undefined = data.sources_to_targets;
+      if (!rows || rows.some(row => row.some(cell => cell?.time == null))) throw new Error('matriz de tempos incompleta');
+      return rows.map(row => row.map(cell => cell.time as number));
+    },
+  };
+}
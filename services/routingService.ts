@@ -0,0 +1,114 @@
+
+import { Location } from '../types';
+import { haversineDistance } from './geoUtils';
+import { AppSettings } from './settingsService';
+import { createOsrmEngine, osrmServesProfile } from './routing/osrmEngine';
+import { createValhallaEngine } from './routing/valhallaEngine';
+import { RawRoute, RoutingBackend, RoutingEngine, TravelProfile } from './routing/types';
+
+export type { RoutingBackend, TravelProfile } from './routing/types';
+
+export interface StreetRoute extends RawRoute {
+  distance: string;
+  time: string;
+  arrivalTime: string;
+  /** Straight line to the target because the router did not answer. */
+  estimated: boolean;
+}
+
+export interface DurationMatrix {
+  /** Seconds, one row per source. */
+  matrix: number[][];
+  estimated: boolean;
+}
+
+export const ROUTING_BACKENDS: { id: RoutingBackend; label: string; placeholder: string }[] = [
+  { id: 'osrm', label: 'OSRM', placeholder: 'https://routing.openstreetmap.de/routed-{profile}' },
+  { id: 'valhalla', label: 'Valhalla', placeholder: 'https://valhalla1.openstreetmap.de' },
+];
+
+/** `speedMps` is the door-to-door average used when there is no router, detours included. */
+export const TRAVEL_PROFILES: { id: TravelProfile; label: string; speedMps: number }[] = [
+  { id: 'car', label: 'Carro', speedMps: 8 },
+  { id: 'motorbike', label: 'Moto', speedMps: 9 },
+  { id: 'walking', label: 'A pé', speedMps: 1.2 },
+];
+
+export const formatDuration = (seconds: number) => Math.round(seconds / 60) + ' min';
+
+export const formatArrivalTime = (seconds: number) =>
+  new Date(Date.now() + seconds * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+function straightLineRoute(start: Location, end: Location, speedMps: number): RawRoute {
+  const distanceMeters = haversineDistance(start, end);
+  return {
+    points: [[start.lat, start.lng], [end.lat, end.lng]],
+    steps: [
+      { instruction: 'Siga em direção ao destino', type: 'depart', location: start, geometryIndex: 0 },
+      { instruction: 'Você chegou ao destino', type: 'arrive', location: end, geometryIndex: 1 },
+    ],
+    distanceMeters,
+    durationSeconds: distanceMeters / speedMps,
+  };
+}
+
+/**
+ * False when the configured server answers this profile with car routes, so
+ * only the speed factor tells the profiles apart.
+ */
+export const profileHasOwnRoutes = (settings: Pick<AppSettings, 'routingBackend' | 'routingUrl'>, profile: TravelProfile) =>
+  settings.routingBackend === 'valhalla' || osrmServesProfile(settings.routingUrl, profile);
+
+function createEngine(settings: AppSettings): RoutingEngine {
+  const options = { baseUrl: settings.routingUrl, profile: settings.travelProfile };
+  return settings.routingBackend === 'valhalla' ? createValhallaEngine(options) : createOsrmEngine(options);
+}
+
+/**
+ * Street routing for the profile chosen in settings. Durations are divided
+ * by the profile's speed factor, and when the server fails the answer is a
+ * straight-line estimate flagged as `estimated` instead of nothing.
+ */
+export function createRouter(settings: AppSettings) {
+  const engine = createEngine(settings);
+  const profile = TRAVEL_PROFILES.find(p => p.id === settings.travelProfile) ?? TRAVEL_PROFILES[0];
+  const factor = settings.speedFactors[profile.id] || 1;
+  const fallbackSpeed = profile.speedMps * factor;
+
+  return {
+    id: engine.id,
+    profile: profile.id,
+    async route(start: Location, end: Location): Promise<StreetRoute> {
+      let raw: RawRoute;
+      let estimated = false;
+      try {
+        raw = await engine.route(start, end);
+        raw = { ...raw, durationSeconds: raw.durationSeconds / factor };
+      } catch (error) {
+        console.error("Routing Error:", error);
+        raw = straightLineRoute(start, end, fallbackSpeed);
+        estimated = true;
+      }
+      return {
+        ...raw,
+        distance: (raw.distanceMeters / 1000).toFixed(1) + ' km',
+        time: formatDuration(raw.durationSeconds),
+        arrivalTime: formatArrivalTime(raw.durationSeconds),
+        estimated,
+      };
+    },
+    /** Travel times from each source index to every point. */
+    async durations(points: Location[], sources: number[] = points.map((_, i) => i)): Promise<DurationMatrix> {
+      try {
+        const matrix = await engine.durations(points, sources);
+        return { matrix: matrix.map(row => row.map(s => s / factor)), estimated: false };
+      } catch (error) {
+        console.error("Routing Error:", error);
+        const matrix = sources.map(i => points.map(p => haversineDistance(points[i], p) / fallbackSpeed));
+        return { matrix, estimated: true };
+      }
+    },
+  };
+}
+
+export type Router = ReturnType<typeof createRouter>;
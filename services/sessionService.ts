@@ -0,0 +1,55 @@
+
+import { ShiftTransition, TrackingPath } from '../types';
+import { STORES, getRecord, updateRecord } from './storageService';
+
+const SESSION_ID = 'current';
+
+/**
+ * Work in progress that must survive a reload or the browser being killed:
+ * the running shift and the last city shown.
+ */
+export interface WorkSession {
+  id: string;
+  /** Transitions of the running shift; empty when none is open. */
+  shiftLog: ShiftTransition[];
+  trackingPath: TrackingPath[];
+  lastCity: { name: string; lat: number; lng: number } | null;
+  updatedAt: number;
+}
+
+const EMPTY_SESSION: WorkSession = {
+  id: SESSION_ID,
+  shiftLog: [],
+  trackingPath: [],
+  lastCity: null,
+  updatedAt: 0,
+};
+
+type StoredSession = WorkSession & { isNavigating?: boolean; shiftStartedAt?: number | null };
+
+function normalizeSession(stored: StoredSession | undefined): WorkSession {
+  const { isNavigating, shiftStartedAt, ...session } = { ...EMPTY_SESSION, ...stored };
+  // Sessões gravadas antes do registro de estados guardavam só um booleano
+  if (isNavigating && session.shiftLog.length === 0) {
+    session.shiftLog = [{ state: 'working', at: shiftStartedAt ?? session.updatedAt, trigger: 'manual' }];
+  }
+  return session;
+}
+
+export async function loadSession(): Promise<WorkSession> {
+  try {
+    return normalizeSession(await getRecord<StoredSession>(STORES.session, SESSION_ID));
+  } catch (error) {
+    console.error("Session Error:", error);
+    return EMPTY_SESSION;
+  }
+}
+
+export async function updateSession(patch: Partial<Omit<WorkSession, 'id' | 'updatedAt'>>): Promise<void> {
+  try {
+    await updateRecord<StoredSession>(STORES.session, SESSION_ID, (current) =>
+      ({ ...normalizeSession(current), ...patch, id: SESSION_ID, updatedAt: Date.now() }));
+  } catch (error) {
+    console.error("Session Error:", error);
+  }
+}
@@ -0,0 +1,98 @@
+
+import { ProviderId } from './providers/types';
+import { RoutingBackend, TravelProfile } from './routing/types';
+import { SpeechEngine } from './speechService';
+import { TeamRole } from './teamProtocol';
+
+const SETTINGS_KEY = 'rotas-bets:settings';
+
+export interface AppSettings {
+  /** Radius (m) around each business for the automatic check-in. */
+  geofenceRadiusM: number;
+  /** Seconds the agent must stay inside the radius before arrival is recorded. */
+  geofenceDwellSec: number;
+  /** Reasons offered when a visit is recorded as a failure. */
+  failureReasons: string[];
+  /** Source for geocoding, suggestions and places. */
+  provider: ProviderId;
+  /** Base URL of the Nominatim instance used by the OpenStreetMap provider. */
+  nominatimUrl: string;
+  /** Overpass interpreter endpoint used by the OpenStreetMap provider. */
+  overpassUrl: string;
+  /** Street routing server software. */
+  routingBackend: RoutingBackend;
+  /** Base URL of the routing server. */
+  routingUrl: string;
+  /** How the agent gets around; changes route geometry and ETA. */
+  travelProfile: TravelProfile;
+  /** Multiplies the speed of each profile, e.g. 1.2 for a faster rider. */
+  speedFactors: Record<TravelProfile, number>;
+  /** Minutes without moving before the shift counts as idle. */
+  idleAfterMin: number;
+  /** Silences every spoken announcement. */
+  speechMuted: boolean;
+  /** Announcement volume, 0..1. */
+  speechVolume: number;
+  /** Gemini voices, or the browser's offline synthesizer. */
+  speechEngine: SpeechEngine;
+  /** Gemini prebuilt voice used for announcements. */
+  speechVoice: string;
+  /** Listens continuously for the wake word instead of push-to-talk. */
+  voiceHandsFree: boolean;
+  /** Shares position, shift and visits with the team server. */
+  teamEnabled: boolean;
+  /** Team server origin; empty uses the app's own server. */
+  teamServerUrl: string;
+  teamRole: TeamRole;
+  /** Team code set on the server (TEAM_TOKEN, or TEAM_SUPERVISOR_TOKEN for supervisors). */
+  teamToken: string;
+  /** Name shown to the supervisor. */
+  teamMemberName: string;
+  /** Stable ID of this device in the team, generated on first run. */
+  teamMemberId: string;
+  /** Shows the developer panel with simulated location sources. */
+  developerMode: boolean;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  geofenceRadiusM: 40,
+  geofenceDwellSec: 60,
+  failureReasons: ['Fechado', 'Dono ausente', 'Recusou', 'Sem estoque', 'Endereço não encontrado'],
+  provider: 'gemini',
+  nominatimUrl: 'https://nominatim.openstreetmap.org',
+  overpassUrl: 'https://overpass-api.de/api/interpreter',
+  routingBackend: 'osrm',
+  routingUrl: 'https://routing.openstreetmap.de/routed-{profile}',
+  travelProfile: 'car',
+  speedFactors: { car: 1, motorbike: 1, walking: 1 },
+  idleAfterMin: 5,
+  speechMuted: false,
+  speechVolume: 1,
+  speechEngine: 'gemini',
+  speechVoice: 'Kore',
+  voiceHandsFree: false,
+  teamEnabled: false,
+  teamServerUrl: '',
+  teamRole: 'agent',
+  teamToken: '',
+  teamMemberName: '',
+  teamMemberId: Math.random().toString(36).substr(2, 9),
+  developerMode: false,
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const settings: AppSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+    // O padrão antigo só tinha perfil de carro; quem não mudou o endereço passa para o novo
+    if (settings.routingUrl === 'https://router.project-osrm.org') settings.routingUrl = DEFAULT_SETTINGS.routingUrl;
+    return settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,130 @@
+
+import { Location, ShiftState, ShiftTransition, TrackingPath, VisitRecord } from '../types';
+import { haversineDistance, pathDistanceKm } from './geoUtils';
+
+export type ShiftEvent = 'start' | 'pause' | 'resume' | 'idle' | 'move' | 'finish';
+
+const TRANSITIONS: Record<ShiftState, Partial<Record<ShiftEvent, ShiftState>>> = {
+  notStarted: { start: 'working' },
+  working: { pause: 'onBreak', idle: 'idle', finish: 'finished' },
+  idle: { move: 'working', pause: 'onBreak', finish: 'finished' },
+  onBreak: { resume: 'working', finish: 'finished' },
+  finished: { start: 'working' },
+};
+
+export const SHIFT_STATE_LABELS: Record<ShiftState, string> = {
+  notStarted: 'Não iniciado',
+  working: 'Trabalhando',
+  onBreak: 'Em pausa',
+  idle: 'Parado',
+  finished: 'Encerrado',
+};
+
+export const currentShiftState = (log: ShiftTransition[]): ShiftState =>
+  log.length ? log[log.length - 1].state : 'notStarted';
+
+/** Working, idle or on break: the shift is running. */
+export const isShiftOpen = (state: ShiftState) => state === 'working' || state === 'idle' || state === 'onBreak';
+
+/**
+ * Applies an event to the transition log. Events that are not valid in the
+ * current state return the same log, so callers can fire them freely.
+ * Starting again after `finished` opens a new log.
+ */
+export function applyShiftEvent(log: ShiftTransition[], event: ShiftEvent, at: number, trigger: ShiftTransition['trigger'] = 'manual'): ShiftTransition[] {
+  const state = currentShiftState(log);
+  const next = TRANSITIONS[state][event];
+  if (!next) return log;
+  const previous = state === 'finished' ? [] : log;
+  // Nunca volta no tempo, mesmo que a detecção de parada date o início antes da última mudança
+  const last = previous[previous.length - 1];
+  return [...previous, { state: next, at: last ? Math.max(at, last.at) : at, trigger }];
+}
+
+export interface ShiftDurations {
+  workingMs: number;
+  idleMs: number;
+  breakMs: number;
+}
+
+export function shiftDurations(log: ShiftTransition[], now: number = Date.now()): ShiftDurations {
+  const totals: ShiftDurations = { workingMs: 0, idleMs: 0, breakMs: 0 };
+  log.forEach((t, i) => {
+    const end = log[i + 1]?.at ?? now;
+    if (t.state === 'working') totals.workingMs += end - t.at;
+    else if (t.state === 'idle') totals.idleMs += end - t.at;
+    else if (t.state === 'onBreak') totals.breakMs += end - t.at;
+  });
+  return totals;
+}
+
+export interface ShiftSummary extends ShiftDurations {
+  startedAt: number;
+  finishedAt: number;
+  distanceKm: number;
+  stopsVisited: number;
+  successes: number;
+  /** 0..1, or null when no stop was visited. */
+  successRate: number | null;
+}
+
+/**
+ * Totals for the end-of-shift report. `track` is the shift's own track;
+ * only visits recorded between the first and last transition count.
+ */
+export function summarizeShift(log: ShiftTransition[], track: TrackingPath[], visits: VisitRecord[]): ShiftSummary {
+  const startedAt = log[0]?.at ?? Date.now();
+  const finishedAt = log[log.length - 1]?.at ?? startedAt;
+  const inShift = visits.filter(v => v.timestamp >= startedAt && v.timestamp <= finishedAt);
+  // Cada ponto conta uma vez; vale o último resultado registrado
+  const latest = new Map<string, VisitRecord>();
+  inShift.forEach(v => {
+    const known = latest.get(v.businessId);
+    if (!known || known.timestamp < v.timestamp) latest.set(v.businessId, v);
+  });
+  const successes = [...latest.values()].filter(v => v.outcome === 'success').length;
+  return {
+    ...shiftDurations(log, finishedAt),
+    startedAt,
+    finishedAt,
+    distanceKm: pathDistanceKm(track.map(p => p.location)),
+    stopsVisited: latest.size,
+    successes,
+    successRate: latest.size ? successes / latest.size : null,
+  };
+}
+
+// Deslocamento abaixo disso é ruído do GPS, não movimento
+const IDLE_RADIUS_M = 50;
+
+/**
+ * Spots the agent standing still. `update` with each position reports a
+ * `move` once they leave the radius; `check`, called on a timer because a
+ * parked phone may stop sending fixes, reports `idle` with the time the
+ * stop began.
+ */
+export function createIdleDetector(initialIdleAfterMs: number) {
+  let idleAfterMs = initialIdleAfterMs;
+  let anchor: Location | null = null;
+  let anchorAt = 0;
+
+  return {
+    update(location: Location, at: number): { type: 'move'; at: number } | null {
+      if (anchor && haversineDistance(anchor, location) <= IDLE_RADIUS_M) return null;
+      const moved = anchor !== null;
+      anchor = location;
+      anchorAt = at;
+      return moved ? { type: 'move', at } : null;
+    },
+    check(at: number): { type: 'idle'; at: number } | null {
+      return anchor && at - anchorAt >= idleAfterMs ? { type: 'idle', at: anchorAt } : null;
+    },
+    /** Restarts the stationary clock, e.g. after a break. */
+    reset(at: number) {
+      anchorAt = at;
+    },
+    configure(next: number) {
+      idleAfterMs = next;
+    },
+  };
+}
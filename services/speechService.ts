@@ -0,0 +1,208 @@
+
+import { requestSpeech } from './geminiService';
+import { DAY_MS, createPersistentCache } from './cacheService';
+
+/** Higher priorities interrupt lower ones; equal ones wait their turn. */
+export type SpeechPriority = 'info' | 'alert' | 'navigation';
+
+export type SpeechEngine = 'gemini' | 'browser';
+
+export interface SpeechConfig {
+  muted: boolean;
+  /** 0..1 */
+  volume: number;
+  engine: SpeechEngine;
+  /** Gemini prebuilt voice name. */
+  voice: string;
+}
+
+export const GEMINI_VOICES = ['Kore', 'Aoede', 'Puck', 'Charon', 'Fenrir'];
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = { info: 0, alert: 1, navigation: 2 };
+const SAMPLE_RATE = 24000;
+// Avisos comuns que esperaram mais que isso na fila já não interessam
+const STALE_INFO_MS = 8000;
+const MAX_DECODED_BUFFERS = 40;
+
+interface Utterance {
+  text: string;
+  priority: SpeechPriority;
+  queuedAt: number;
+}
+
+interface Playback {
+  done: Promise<void>;
+  cancel: () => void;
+}
+
+const audioCache = createPersistentCache<string>({ namespace: 'tts', label: 'Áudios de voz', maxEntries: 200, ttlMs: 30 * DAY_MS });
+
+function decode(base64: string) {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): AudioBuffer {
+  const dataInt16 = new Int16Array(data.buffer, 0, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Plays announcements one at a time through a single AudioContext. Gemini
+ * audio is cached per phrase and voice; without it the browser's
+ * `speechSynthesis` speaks instead.
+ */
+export function createSpeechManager(initialConfig: SpeechConfig) {
+  let config = initialConfig;
+  const queue: Utterance[] = [];
+  let current: { utterance: Utterance; cancel: () => void } | null = null;
+  let audioContext: AudioContext | null = null;
+  let gain: GainNode | null = null;
+  const buffers = new Map<string, AudioBuffer>();
+
+  const getContext = () => {
+    if (!audioContext) {
+      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+      gain = audioContext.createGain();
+      gain.connect(audioContext.destination);
+    }
+    gain!.gain.value = config.volume;
+    if (audioContext.state === 'suspended') audioContext.resume();
+    return audioContext;
+  };
+
+  const loadBuffer = async (text: string): Promise<AudioBuffer> => {
+    const key = `${config.voice}:${text}`;
+    const decoded = buffers.get(key);
+    if (decoded) {
+      buffers.delete(key);
+      buffers.set(key, decoded);
+      return decoded;
+    }
+    let base64 = await audioCache.get(key);
+    if (!base64) {
+      base64 = await requestSpeech(text, config.voice);
+      await audioCache.set(key, base64);
+    }
+    const buffer = decodeAudioData(decode(base64), getContext(), SAMPLE_RATE, 1);
+    buffers.set(key, buffer);
+    if (buffers.size > MAX_DECODED_BUFFERS) buffers.delete(buffers.keys().next().value!);
+    return buffer;
+  };
+
+  const playBuffer = (buffer: AudioBuffer): Playback => {
+    const ctx = getContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain!);
+    const done = new Promise<void>((resolve) => { source.onended = () => resolve(); });
+    source.start();
+    return { done, cancel: () => { try { source.stop(); } catch { /* já terminou */ } } };
+  };
+
+  const speakLocally = (text: string): Playback => {
+    if (!('speechSynthesis' in window)) return { done: Promise.resolve(), cancel: () => {} };
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'pt-BR';
+    utterance.volume = config.volume;
+    const voice = speechSynthesis.getVoices().find(v => v.lang.replace('_', '-').startsWith('pt-BR'));
+    if (voice) utterance.voice = voice;
+    let finish = () => {};
+    const done = new Promise<void>((resolve) => {
+      finish = resolve;
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+    });
+    speechSynthesis.speak(utterance);
+    return { done, cancel: () => { speechSynthesis.cancel(); finish(); } };
+  };
+
+  const playNext = async (): Promise<void> => {
+    if (current || queue.length === 0) return;
+    const utterance = queue.shift()!;
+    if (utterance.priority === 'info' && Date.now() - utterance.queuedAt > STALE_INFO_MS) return playNext();
+
+    let cancelled = false;
+    let stopPlayback = () => {};
+    current = { utterance, cancel: () => { cancelled = true; stopPlayback(); } };
+    try {
+      let playback: Playback | null = null;
+      if (config.engine === 'gemini' && navigator.onLine) {
+        try {
+          const buffer = await loadBuffer(utterance.text);
+          if (cancelled) return;
+          playback = playBuffer(buffer);
+        } catch (error) {
+          console.error("TTS Error:", error);
+        }
+      }
+      if (cancelled) return;
+      playback = playback ?? speakLocally(utterance.text);
+      stopPlayback = playback.cancel;
+      await playback.done;
+    } finally {
+      if (current?.utterance === utterance) current = null;
+      playNext();
+    }
+  };
+
+  // Entra depois de tudo que tem prioridade igual ou maior
+  const enqueue = (utterance: Utterance) => {
+    const index = queue.findIndex(u => PRIORITY_RANK[u.priority] < PRIORITY_RANK[utterance.priority]);
+    queue.splice(index === -1 ? queue.length : index, 0, utterance);
+  };
+
+  const speak = (text: string, priority: SpeechPriority = 'info') => {
+    if (config.muted || !text.trim()) return;
+    if (current?.utterance.text === text || queue.some(u => u.text === text)) return;
+    const utterance = { text, priority, queuedAt: Date.now() };
+
+    if (current && PRIORITY_RANK[priority] > PRIORITY_RANK[current.utterance.priority]) {
+      const interrupted = current.utterance;
+      current.cancel();
+      current = null;
+      queue.unshift(utterance);
+      // Alertas interrompidos voltam a tocar depois; confirmações simples são descartadas
+      if (interrupted.priority !== 'info') enqueue(interrupted);
+    } else {
+      enqueue(utterance);
+    }
+    playNext();
+  };
+
+  const stop = () => {
+    queue.length = 0;
+    current?.cancel();
+    current = null;
+  };
+
+  return {
+    speak,
+    stop,
+    configure: (next: SpeechConfig) => {
+      config = next;
+      if (gain) gain.gain.value = next.volume;
+      if (next.muted) stop();
+    },
+  };
+}
+
+export const speechManager = createSpeechManager({ muted: false, volume: 1, engine: 'gemini', voice: GEMINI_VOICES[0] });
+
+/**
+ * Queues a spoken announcement. Turn-by-turn instructions should use
+ * `'navigation'` so they cut in front of confirmations.
+ */
+export const speakStatus = (text: string, priority: SpeechPriority = 'info') => speechManager.speak(text, priority);
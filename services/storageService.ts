@@ -0,0 +1,86 @@
+
+const DB_NAME = 'rotas-bets';
+const DB_VERSION = 8;
+
+/**
+ * Object stores created on upgrade. Every store is keyed by the record's `id`.
+ */
+export const STORES = {
+  routeHistory: 'routeHistory',
+  checkIns: 'checkIns',
+  visits: 'visits',
+  customerList: 'customerList',
+  places: 'places',
+  session: 'session',
+  outbox: 'outbox',
+  cache: 'cache',
+  territories: 'territories',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function runRequest<T>(store: StoreName, mode: IDBTransactionMode, action: (os: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDatabase().then((db) => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function putRecord<T extends { id: string }>(store: StoreName, value: T): Promise<void> {
+  return runRequest<void>(store, 'readwrite', (os) => os.put(value));
+}
+
+export function getRecord<T>(store: StoreName, id: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', (os) => os.get(id));
+}
+
+export function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', (os) => os.getAll());
+}
+
+/**
+ * Reads a record and writes back what `update` makes of it in one readwrite
+ * transaction, so concurrent updates of different fields do not overwrite
+ * each other.
+ */
+export function updateRecord<T extends { id: string }>(store: StoreName, id: string, update: (current: T | undefined) => T): Promise<void> {
+  return openDatabase().then((db) => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const os = tx.objectStore(store);
+    const request = os.get(id);
+    request.onsuccess = () => { os.put(update(request.result as T | undefined)); };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function deleteRecord(store: StoreName, id: string): Promise<void> {
+  return runRequest<void>(store, 'readwrite', (os) => os.delete(id));
+}
@@ -0,0 +1,70 @@
+
+import { BusinessPoint, Location, ShiftState, TerritoryPlan, TrackingPath } from '../types';
+
+// Mensagens trocadas entre os aparelhos e o servidor de equipe (server/teamHub.ts)
+
+export type TeamRole = 'agent' | 'supervisor';
+
+export interface TeamMember {
+  id: string;
+  name: string;
+}
+
+/** One agent's latest change to a business; the newest `at` wins. */
+export interface BusinessUpdate {
+  businessId: string;
+  businessName: string;
+  status: BusinessPoint['status'];
+  agentId: string;
+  agentName: string;
+  at: number;
+}
+
+export interface AgentState extends TeamMember {
+  position: Location | null;
+  heading: number | null;
+  shiftState: ShiftState;
+  /** Most recent track points, oldest first. */
+  trail: TrackingPath[];
+  updatedAt: number;
+  /** Businesses this agent closed today, success or failure. */
+  visitedToday: number;
+  successesToday: number;
+}
+
+export type ClientMessage =
+  | { type: 'hello'; member: TeamMember; role: TeamRole; token: string }
+  | { type: 'position'; point: TrackingPath; heading: number | null }
+  | { type: 'shift'; state: ShiftState; at: number }
+  | { type: 'visit'; update: BusinessUpdate }
+  /** Sent by supervisors; replaces the city's plan on every device. */
+  | { type: 'territories'; plan: TerritoryPlan };
+
+export type ServerMessage =
+  | { type: 'snapshot'; agents: AgentState[]; businesses: BusinessUpdate[]; territories: TerritoryPlan[] }
+  | { type: 'agent'; agent: AgentState }
+  | { type: 'business'; update: BusinessUpdate }
+  | { type: 'territories'; plan: TerritoryPlan };
+
+/** Body of the HTTP fallback: queued messages in, snapshot out. */
+export interface TeamPollRequest {
+  member: TeamMember;
+  role: TeamRole;
+  /** Team code configured on the server; a supervisor code when `role` is supervisor. */
+  token: string;
+  messages: ClientMessage[];
+}
+
+export const TEAM_PREFIX = '/api/team';
+export const TRAIL_LENGTH = 200;
+
+/**
+ * Last writer wins on the time the agent recorded the change, not on arrival
+ * order, so an update queued offline cannot overwrite a newer one. Ties go to
+ * the higher agent ID so every device settles on the same winner.
+ */
+export function resolveBusinessUpdate(current: BusinessUpdate | undefined, incoming: BusinessUpdate): BusinessUpdate {
+  if (!current) return incoming;
+  if (incoming.at !== current.at) return incoming.at > current.at ? incoming : current;
+  return incoming.agentId > current.agentId ? incoming : current;
+}
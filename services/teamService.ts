@@ -0,0 +1,148 @@
+
+import { ClientMessage, ServerMessage, TeamMember, TeamRole, TEAM_PREFIX } from './teamProtocol';
+
+export type TeamConnection = 'connecting' | 'websocket' | 'polling' | 'offline' | 'rejected';
+
+export interface TeamClientOptions {
+  /** Origin of the team server; empty uses the app's own. */
+  serverUrl: string;
+  member: TeamMember;
+  role: TeamRole;
+  /** Team code set on the server. */
+  token: string;
+  onMessage: (message: ServerMessage) => void;
+  onConnectionChange: (connection: TeamConnection) => void;
+}
+
+/** The team server answered with an error status. */
+export class TeamRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TeamRequestError';
+  }
+}
+
+const POLL_MS = 5000;
+const SOCKET_RETRY_MS = 20000;
+// Posições guardadas enquanto não há conexão; as mais antigas saem primeiro
+const MAX_QUEUED = 100;
+
+/**
+ * Keeps a device in sync with the team server. Prefers a WebSocket and falls
+ * back to HTTP polling while retrying the socket in the background. Visit
+ * results always go over HTTP so the caller knows when they arrived.
+ */
+export function createTeamClient(options: TeamClientOptions) {
+  const base = `${(options.serverUrl || window.location.origin).replace(/\/+$/, '')}${TEAM_PREFIX}`;
+  const queue: ClientMessage[] = [];
+  let socket: WebSocket | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  // Código recusado: tentar de novo não adianta até o usuário corrigir nas configurações
+  let rejected = false;
+
+  const post = async (messages: ClientMessage[]) => {
+    const res = await fetch(`${base}/poll`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ member: options.member, role: options.role, token: options.token, messages }),
+    });
+    if (!res.ok) {
+      const payload = await res.json().catch(() => null);
+      if (res.status === 401) rejected = true;
+      throw new TeamRequestError(res.status, payload?.error || `HTTP ${res.status}`);
+    }
+    options.onMessage(await res.json());
+  };
+
+  const poll = async () => {
+    const messages = queue.splice(0);
+    try {
+      await post(messages);
+      if (!stopped && socket?.readyState !== WebSocket.OPEN) options.onConnectionChange('polling');
+    } catch {
+      queue.unshift(...messages);
+      queue.splice(0, Math.max(0, queue.length - MAX_QUEUED));
+      if (rejected) {
+        stopPolling();
+        options.onConnectionChange('rejected');
+      } else {
+        options.onConnectionChange('offline');
+      }
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer || stopped || rejected) return;
+    poll();
+    pollTimer = setInterval(poll, POLL_MS);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const openSocket = () => {
+    retryTimer = null;
+    if (stopped || rejected) return;
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(`${base.replace(/^http/, 'ws')}/ws`);
+    } catch (error) {
+      console.error("Team Error:", error);
+      startPolling();
+      return;
+    }
+    socket = ws;
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: 'hello', member: options.member, role: options.role, token: options.token }));
+      stopPolling();
+      queue.splice(0).forEach(m => ws.send(JSON.stringify(m)));
+      options.onConnectionChange('websocket');
+    };
+    ws.onmessage = (event) => {
+      try {
+        options.onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Team Error:", error);
+      }
+    };
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (stopped) return;
+      startPolling();
+      if (!retryTimer) retryTimer = setTimeout(openSocket, SOCKET_RETRY_MS);
+    };
+  };
+
+  return {
+    start() {
+      options.onConnectionChange('connecting');
+      openSocket();
+    },
+    stop() {
+      stopped = true;
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+    },
+    /**
+     * Sends a message, queueing it while disconnected. Resolves once a visit
+     * result reached the server; rejects if it did not.
+     */
+    async send(message: ClientMessage): Promise<void> {
+      if (message.type === 'visit') return post([message]);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+        return;
+      }
+      queue.push(message);
+      queue.splice(0, Math.max(0, queue.length - MAX_QUEUED));
+    },
+  };
+}
+
+export type TeamClient = ReturnType<typeof createTeamClient>;
@@ -0,0 +1,182 @@
+
+import { BusinessPoint, District, Location, Territory, TerritoryPlan } from '../types';
+import { haversineDistance } from './geoUtils';
+import { normalizeName } from './placeService';
+import { STORES, putRecord, getRecord, deleteRecord } from './storageService';
+
+export interface TerritoryPoint extends Location {
+  id: string;
+  /** Relative effort to work the point; a district counts more than a bar. */
+  weight: number;
+}
+
+export const TERRITORY_COLORS = ['#8b5cf6', '#f59e0b', '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#14b8a6', '#6366f1'];
+
+// Um distrito exige percorrer o bairro inteiro, não só entrar em um bar
+const DISTRICT_WEIGHT = 3;
+const MAX_ITERATIONS = 25;
+// Folga sobre a carga média antes de mandar um ponto para um território mais distante
+const CAPACITY_SLACK = 1.1;
+
+const centroid = (points: TerritoryPoint[]): Location => {
+  const total = points.reduce((sum, p) => sum + p.weight, 0) || 1;
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat * p.weight, 0) / total,
+    lng: points.reduce((sum, p) => sum + p.lng * p.weight, 0) / total,
+  };
+};
+
+/** Points to split: current businesses and every district of the city. */
+export function territoryPoints(businesses: BusinessPoint[], districts: District[]): TerritoryPoint[] {
+  return [
+    ...businesses.filter(b => !b.missing).map(b => ({ id: b.id, lat: b.lat, lng: b.lng, weight: 1 })),
+    ...districts.filter(d => !d.missing).map(d => ({ id: d.id, lat: d.lat, lng: d.lng, weight: DISTRICT_WEIGHT })),
+  ];
+}
+
+/** Spreads the starting centres: each one is the point farthest from the ones chosen so far. */
+function seedCenters(points: TerritoryPoint[], fixed: (Location | null)[]): Location[] {
+  const centers = [...fixed];
+  const chosen = () => centers.filter((c): c is Location => c !== null);
+  centers.forEach((c, i) => {
+    if (c) return;
+    const anchors = chosen();
+    const from = anchors.length ? anchors : [centroid(points)];
+    const farthest = points.reduce((best, p) => {
+      const d = Math.min(...from.map(a => haversineDistance(a, p)));
+      return d > best.d ? { p, d } : best;
+    }, { p: points[0], d: -1 });
+    centers[i] = { lat: farthest.p.lat, lng: farthest.p.lng };
+  });
+  return centers as Location[];
+}
+
+/**
+ * Balanced k-means over straight-line distance. Pinned points stay with their
+ * agent; the others go to the nearest centre with room left, placing first
+ * the points that lose the most by not getting their nearest territory.
+ * Returns the agent index for every point, in input order.
+ */
+export function splitTerritories(points: TerritoryPoint[], agentNames: string[], pins: Record<string, string> = {}): number[] {
+  const k = agentNames.length;
+  if (k === 0 || points.length === 0) return points.map(() => 0);
+  const agentIndex = new Map(agentNames.map((name, i) => [normalizeName(name), i]));
+  const pinned = points.map(p => pins[p.id] !== undefined ? agentIndex.get(normalizeName(pins[p.id])) ?? -1 : -1);
+  const capacity = (points.reduce((sum, p) => sum + p.weight, 0) / k) * CAPACITY_SLACK;
+
+  let centers = seedCenters(points, agentNames.map((_, i) => {
+    const own = points.filter((_, j) => pinned[j] === i);
+    return own.length ? centroid(own) : null;
+  }));
+  let assignment: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const load = new Array(k).fill(0);
+    const next = pinned.slice();
+    pinned.forEach((owner, j) => { if (owner !== -1) load[owner] += points[j].weight; });
+
+    const free = points
+      .map((p, j) => ({ j, distances: centers.map(c => haversineDistance(c, p)) }))
+      .filter(({ j }) => pinned[j] === -1)
+      .map(entry => {
+        const sorted = [...entry.distances].sort((a, b) => a - b);
+        return { ...entry, regret: (sorted[1] ?? sorted[0]) - sorted[0] };
+      })
+      .sort((a, b) => b.regret - a.regret);
+
+    free.forEach(({ j, distances }) => {
+      const order = distances.map((d, i) => ({ d, i })).sort((a, b) => a.d - b.d);
+      const fits = order.find(({ i }) => load[i] + points[j].weight <= capacity);
+      const owner = fits ? fits.i : order.reduce((best, o) => load[o.i] < load[best.i] ? o : best).i;
+      next[j] = owner;
+      load[owner] += points[j].weight;
+    });
+
+    const changed = next.some((owner, j) => owner !== assignment[j]);
+    assignment = next;
+    if (!changed) break;
+    centers = centers.map((c, i) => {
+      const own = points.filter((_, j) => assignment[j] === i);
+      return own.length ? centroid(own) : c;
+    });
+  }
+  return assignment;
+}
+
+/** Builds a plan from a split, keeping the pins so the next split honours them. */
+export function buildTerritoryPlan(city: string, points: TerritoryPoint[], agentNames: string[], pins: Record<string, string>): TerritoryPlan {
+  const assignment = splitTerritories(points, agentNames, pins);
+  const territories: Territory[] = agentNames.map((agentName, i) => ({
+    agentName,
+    color: TERRITORY_COLORS[i % TERRITORY_COLORS.length],
+    pointIds: points.filter((_, j) => assignment[j] === i).map(p => p.id),
+  }));
+  return { id: normalizeName(city), territories, pins, updatedAt: Date.now() };
+}
+
+/**
+ * Moves a point to an agent's territory and pins it there. An empty agent
+ * name removes the pin and leaves the point where it is.
+ */
+export function pinPoint(plan: TerritoryPlan, pointId: string, agentName: string): TerritoryPlan {
+  const pins = { ...plan.pins };
+  if (!agentName) {
+    delete pins[pointId];
+    return { ...plan, pins, updatedAt: Date.now() };
+  }
+  pins[pointId] = agentName;
+  const territories = plan.territories.map(t => ({
+    ...t,
+    pointIds: t.agentName === agentName
+      ? [...t.pointIds.filter(id => id !== pointId), pointId]
+      : t.pointIds.filter(id => id !== pointId),
+  }));
+  return { ...plan, territories, pins, updatedAt: Date.now() };
+}
+
+export function territoryOf(plan: TerritoryPlan | null, pointId: string): Territory | undefined {
+  return plan?.territories.find(t => t.pointIds.includes(pointId));
+}
+
+/** Convex hull (monotone chain) around a territory's points, for drawing its region. */
+export function territoryHull(points: Location[]): Location[] {
+  const sorted = [...points].sort((a, b) => a.lng - b.lng || a.lat - b.lat);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: Location, a: Location, b: Location) =>
+    (a.lng - o.lng) * (b.lat - o.lat) - (a.lat - o.lat) * (b.lng - o.lng);
+  const half = (list: Location[]) => {
+    const chain: Location[] = [];
+    list.forEach((p) => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], p) <= 0) chain.pop();
+      chain.push(p);
+    });
+    chain.pop();
+    return chain;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+}
+
+export async function loadTerritoryPlan(city: string): Promise<TerritoryPlan | null> {
+  try {
+    return (await getRecord<TerritoryPlan>(STORES.territories, normalizeName(city))) || null;
+  } catch (error) {
+    console.error("Territory Error:", error);
+    return null;
+  }
+}
+
+export async function saveTerritoryPlan(plan: TerritoryPlan): Promise<void> {
+  try {
+    await putRecord(STORES.territories, plan);
+  } catch (error) {
+    console.error("Territory Error:", error);
+  }
+}
+
+export async function clearTerritoryPlan(city: string): Promise<void> {
+  try {
+    await deleteRecord(STORES.territories, normalizeName(city));
+  } catch (error) {
+    console.error("Territory Error:", error);
+  }
+}
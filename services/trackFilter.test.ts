@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTrackFilter } from './trackFilter';
+import { haversineDistance } from './geoUtils';
+import { Location } from '../types';
+
+const ORIGIN: Location = { lat: -3.7317, lng: -41.0004 };
+const north = (meters: number): Location => ({ lat: ORIGIN.lat + meters / 111320, lng: ORIGIN.lng });
+
+test('keeps up with a vehicle at driving speed', () => {
+  [5, 10, 20, undefined].forEach((accuracy) => {
+    const filter = createTrackFilter();
+    let lag = 0;
+    for (let s = 0; s <= 60; s++) {
+      const truth = north(15 * s);
+      const result = filter.process({ location: truth, accuracy, timestamp: s * 1000 });
+      assert.ok(result.accepted);
+      if (s >= 10) lag = Math.max(lag, haversineDistance(result.position, truth));
+    }
+    assert.ok(lag < 3, `lag of ${lag.toFixed(1)} m at accuracy ${accuracy ?? 'unknown'}`);
+  });
+});
+
+test('smooths noise while parked', () => {
+  const filter = createTrackFilter();
+  let worst = 0;
+  for (let s = 0; s <= 60; s++) {
+    const noisy = north(s % 2 === 0 ? 10 : -10);
+    const result = filter.process({ location: noisy, accuracy: 10, timestamp: s * 1000 });
+    assert.ok(result.accepted);
+    if (s >= 10) worst = Math.max(worst, haversineDistance(result.position, ORIGIN));
+  }
+  assert.ok(worst < 6, `drift of ${worst.toFixed(1)} m while parked`);
+});
@@ -0,0 +1,141 @@
+
+import { GpsFix, Location } from '../types';
+import { bearing, haversineDistance } from './geoUtils';
+
+export interface TrackFilterConfig {
+  /** Fixes less accurate than this (m) are ignored. */
+  maxAccuracyM: number;
+  /** Fixes implying a faster jump than this (m/s) are treated as outliers. */
+  maxSpeedMps: number;
+  /** Minimum distance (m) between consecutive track points. */
+  minSpacingM: number;
+  /** Expected acceleration (m/s²); higher trusts new fixes more. */
+  accelerationNoiseMps2: number;
+}
+
+export const DEFAULT_TRACK_FILTER: TrackFilterConfig = {
+  maxAccuracyM: 50,
+  maxSpeedMps: 55,
+  minSpacingM: 8,
+  accelerationNoiseMps2: 2,
+};
+
+export type TrackFilterResult =
+  | { accepted: false; reason: 'accuracy' | 'speed' }
+  | {
+      accepted: true;
+      /** Smoothed position. */
+      position: Location;
+      /** True when the position is far enough from the last track point to be recorded. */
+      isTrackPoint: boolean;
+      /** Heading of the last movement, or null while standing still. */
+      heading: number | null;
+    };
+
+// Precisão assumida quando o aparelho não informa nenhuma
+const DEFAULT_ACCURACY_M = 20;
+const METERS_PER_DEGREE = 111320;
+
+/** Position and velocity along one axis, in metres from the origin, with their covariance. */
+interface AxisState {
+  p: number;
+  v: number;
+  pp: number;
+  pv: number;
+  vv: number;
+}
+
+/**
+ * One predict/update step of a constant-velocity Kalman filter on a single
+ * axis. Process noise is white acceleration with standard deviation `q`.
+ */
+function stepAxis(s: AxisState, z: number, r2: number, dt: number, q: number): AxisState {
+  const q2 = q * q;
+  const p = s.p + s.v * dt;
+  const pp = s.pp + 2 * dt * s.pv + dt * dt * s.vv + q2 * dt ** 4 / 4;
+  const pv = s.pv + dt * s.vv + q2 * dt ** 3 / 2;
+  const vv = s.vv + q2 * dt * dt;
+  const kp = pp / (pp + r2);
+  const kv = pv / (pp + r2);
+  const innovation = z - p;
+  return {
+    p: p + kp * innovation,
+    v: s.v + kv * innovation,
+    pp: (1 - kp) * pp,
+    pv: (1 - kp) * pv,
+    vv: vv - kv * pv,
+  };
+}
+
+/**
+ * Cleans up raw GPS fixes: drops inaccurate ones and impossible jumps,
+ * smooths the rest with a constant-velocity Kalman filter (so the estimate
+ * keeps up with a moving vehicle instead of trailing it) and only reports a
+ * new track point (and heading) after moving `minSpacingM`, so noise while
+ * parked does not draw zig-zags.
+ */
+export function createTrackFilter(config: TrackFilterConfig = DEFAULT_TRACK_FILTER) {
+  let estimate: { origin: Location; metersPerLng: number; x: AxisState; y: AxisState; timestamp: number } | null = null;
+  let lastAccepted: GpsFix | null = null;
+  let lastTrackPoint: Location | null = null;
+
+  const reset = () => {
+    estimate = null;
+    lastAccepted = null;
+    lastTrackPoint = null;
+  };
+
+  const process = (fix: GpsFix): TrackFilterResult => {
+    // Relógio voltou (ex.: ao retroceder uma reprodução): recomeça do zero
+    if (lastAccepted && fix.timestamp < lastAccepted.timestamp) reset();
+    const accuracy = Math.max(1, fix.accuracy ?? DEFAULT_ACCURACY_M);
+    if (accuracy > config.maxAccuracyM) return { accepted: false, reason: 'accuracy' };
+
+    if (lastAccepted) {
+      const seconds = Math.max(1, (fix.timestamp - lastAccepted.timestamp) / 1000);
+      // A própria imprecisão dos dois pontos não conta como deslocamento
+      const jump = haversineDistance(lastAccepted.location, fix.location) - accuracy - (lastAccepted.accuracy ?? DEFAULT_ACCURACY_M);
+      if (jump / seconds > config.maxSpeedMps) return { accepted: false, reason: 'speed' };
+    }
+    lastAccepted = { ...fix, accuracy };
+
+    if (!estimate) {
+      // Velocidade inicial desconhecida: qualquer valor até o limite de velocidade
+      const start = (): AxisState => ({ p: 0, v: 0, pp: accuracy ** 2, pv: 0, vv: config.maxSpeedMps ** 2 });
+      estimate = {
+        origin: fix.location,
+        metersPerLng: METERS_PER_DEGREE * Math.cos((fix.location.lat * Math.PI) / 180),
+        x: start(),
+        y: start(),
+        timestamp: fix.timestamp,
+      };
+    } else {
+      const seconds = Math.max(0, (fix.timestamp - estimate.timestamp) / 1000);
+      const x = (fix.location.lng - estimate.origin.lng) * estimate.metersPerLng;
+      const y = (fix.location.lat - estimate.origin.lat) * METERS_PER_DEGREE;
+      estimate = {
+        ...estimate,
+        x: stepAxis(estimate.x, x, accuracy ** 2, seconds, config.accelerationNoiseMps2),
+        y: stepAxis(estimate.y, y, accuracy ** 2, seconds, config.accelerationNoiseMps2),
+        timestamp: fix.timestamp,
+      };
+    }
+
+    const position = {
+      lat: estimate.origin.lat + estimate.y.p / METERS_PER_DEGREE,
+      lng: estimate.origin.lng + estimate.x.p / estimate.metersPerLng,
+    };
+    if (lastTrackPoint && haversineDistance(lastTrackPoint, position) < config.minSpacingM) {
+      return { accepted: true, position, isTrackPoint: false, heading: null };
+    }
+    const heading = lastTrackPoint ? bearing(lastTrackPoint, position) : null;
+    lastTrackPoint = position;
+    return { accepted: true, position, isTrackPoint: true, heading };
+  };
+
+  return {
+    process,
+    /** Forgets the state, e.g. when a new shift starts. */
+    reset,
+  };
+}
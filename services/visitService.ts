@@ -0,0 +1,28 @@
+
+import { VisitRecord } from '../types';
+import { STORES, putRecord, getAllRecords } from './storageService';
+
+export async function saveVisit(visit: VisitRecord): Promise<void> {
+  try {
+    await putRecord(STORES.visits, visit);
+  } catch (error) {
+    console.error("Visit Error:", error);
+  }
+}
+
+/**
+ * Lists every stored visit, newest first.
+ */
+export async function listAllVisits(): Promise<VisitRecord[]> {
+  try {
+    const records = await getAllRecords<VisitRecord>(STORES.visits);
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error("Visit Error:", error);
+    return [];
+  }
+}
+
+export async function listVisits(businessId: string): Promise<VisitRecord[]> {
+  return (await listAllVisits()).filter(v => v.businessId === businessId);
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseVoiceCommand, VoiceIntent, WAKE_WORD } from './voiceCommands';
+
+const COMMANDS: [string, VoiceIntent][] = [
+  ['próxima parada', 'nextStop'],
+  ['confirmar', 'confirm'],
+  ['falhou', 'fail'],
+  ['parar rastreio', 'stopTracking'],
+  ['onde estou', 'whereAmI'],
+];
+
+test('recognises each command phrase', () => {
+  COMMANDS.forEach(([phrase, intent]) => assert.equal(parseVoiceCommand(phrase), intent, phrase));
+});
+
+test('ignores accents, case and punctuation', () => {
+  assert.equal(parseVoiceCommand('PRÓXIMA PARADA'), 'nextStop');
+  assert.equal(parseVoiceCommand('proxima parada'), 'nextStop');
+  assert.equal(parseVoiceCommand('Onde Estou?'), 'whereAmI');
+  assert.equal(parseVoiceCommand('Confirmar!'), 'confirm');
+  assert.equal(parseVoiceCommand('Parar Rastreio.'), 'stopTracking');
+});
+
+test('finds the command inside a longer transcript', () => {
+  assert.equal(parseVoiceCommand('ok vamos para a próxima parada agora'), 'nextStop');
+  assert.equal(parseVoiceCommand('pode confirmar essa visita'), 'confirm');
+  assert.equal(parseVoiceCommand('o cliente não estava, falhou'), 'fail');
+  assert.equal(parseVoiceCommand('por favor parar rastreio que acabou o dia'), 'stopTracking');
+  assert.equal(parseVoiceCommand('me diz onde estou'), 'whereAmI');
+});
+
+test('reads "não deu certo" as a failure, not a confirmation', () => {
+  assert.equal(parseVoiceCommand('não deu certo'), 'fail');
+});
+
+test('returns no intent for unrelated speech or partial words', () => {
+  assert.equal(parseVoiceCommand('bom dia, tudo bem?'), null);
+  assert.equal(parseVoiceCommand(''), null);
+  assert.equal(parseVoiceCommand('confirmaram ontem'), null);
+});
+
+test('with a wake word, only speech after it counts', () => {
+  assert.equal(parseVoiceCommand('próxima parada', WAKE_WORD), null);
+  assert.equal(parseVoiceCommand('Rota, próxima parada', WAKE_WORD), 'nextStop');
+  assert.equal(parseVoiceCommand('confirmar rota onde estou', WAKE_WORD), 'whereAmI');
+});
@@ -0,0 +1,166 @@
+
+import { normalizeName } from './placeService';
+
+export type VoiceIntent = 'nextStop' | 'confirm' | 'fail' | 'stopTracking' | 'whereAmI';
+
+/** Word said before each command when listening hands-free. */
+export const WAKE_WORD = 'rota';
+
+// A ordem importa: "não deu certo" precisa cair em falha antes de qualquer confirmação
+const PHRASES: [VoiceIntent, string[]][] = [
+  ['fail', ['falhou', 'falha', 'nao deu', 'deu errado', 'sem sucesso']],
+  ['confirm', ['confirmar', 'confirma', 'confirmado', 'deu certo', 'sucesso']],
+  ['nextStop', ['proxima parada', 'proximo ponto', 'proximo cliente', 'proximo bar']],
+  ['stopTracking', ['parar rastreio', 'parar rastreamento', 'parar o rastreio', 'encerrar rastreio', 'encerrar turno']],
+  ['whereAmI', ['onde estou', 'onde eu estou', 'onde a gente esta']],
+];
+
+/**
+ * Maps a Portuguese transcript to an intent, ignoring accents, case and
+ * punctuation. With `wakeWord`, only speech after that word counts.
+ */
+export function parseVoiceCommand(transcript: string, wakeWord?: string): VoiceIntent | null {
+  let text = ` ${normalizeName(transcript)} `;
+  if (wakeWord) {
+    const word = ` ${normalizeName(wakeWord)} `;
+    const index = text.indexOf(word);
+    if (index === -1) return null;
+    text = text.slice(index + word.length - 1);
+  }
+  const match = PHRASES.find(([, phrases]) => phrases.some(p => text.includes(` ${p} `)));
+  return match ? match[0] : null;
+}
+
+export interface VoiceRecognizerOptions {
+  /** Keeps listening until stopped; otherwise stops after one phrase. */
+  continuous: boolean;
+  /** Receives every recognition alternative, best first. */
+  onTranscript: (alternatives: string[]) => void;
+  onListeningChange: (listening: boolean) => void;
+}
+
+/** The part of the Web Speech API recognizer this module uses; not in the DOM typings. */
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+const recognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as Window & { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+  return w.SpeechRecognition || w.webkitSpeechRecognition;
+};
+
+export const isVoiceSupported = () => !!recognitionConstructor();
+
+// Sem permissão ou sem microfone não adianta insistir
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture'];
+// Fim normal por silêncio ou parada pedida: não conta como falha
+const BENIGN_ERRORS = ['no-speech', 'aborted'];
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/**
+ * Thin wrapper over the Web Speech API in pt-BR. Hands-free mode restarts the
+ * recognizer whenever the browser ends it after a silence; after errors it
+ * waits longer each time, and without network it waits for the connection.
+ */
+export function createVoiceRecognizer(options: VoiceRecognizerOptions) {
+  const Recognition = recognitionConstructor();
+  let recognition: SpeechRecognition | null = null;
+  let wanted = false;
+  let lastError: string | null = null;
+  let failures = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const cancelRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    window.removeEventListener('online', resume);
+  };
+
+  function resume() {
+    cancelRetry();
+    if (wanted) listen();
+  }
+
+  const finish = () => {
+    wanted = false;
+    cancelRetry();
+    options.onListeningChange(false);
+  };
+
+  // Decide como continuar depois que o navegador encerrou o reconhecimento
+  const scheduleRestart = () => {
+    const error = lastError;
+    lastError = null;
+    if (error === 'network' && !navigator.onLine) {
+      window.addEventListener('online', resume);
+      return;
+    }
+    if (!error || BENIGN_ERRORS.includes(error)) {
+      listen();
+      return;
+    }
+    failures++;
+    retryTimer = setTimeout(resume, Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (failures - 1)));
+  };
+
+  function listen() {
+    if (!Recognition || recognition) return;
+    const current = new Recognition();
+    recognition = current;
+    current.lang = 'pt-BR';
+    current.continuous = options.continuous;
+    current.interimResults = false;
+    current.maxAlternatives = 3;
+    current.onresult = (event) => {
+      failures = 0;
+      const result = event.results[event.results.length - 1];
+      const alternatives: string[] = [];
+      for (let i = 0; i < result.length; i++) alternatives.push(result[i].transcript);
+      options.onTranscript(alternatives);
+    };
+    current.onerror = (event) => {
+      lastError = event.error;
+      if (FATAL_ERRORS.includes(event.error)) wanted = false;
+      if (!BENIGN_ERRORS.includes(event.error)) console.error("Voice Error:", event.error);
+    };
+    current.onend = () => {
+      recognition = null;
+      if (wanted && options.continuous) scheduleRestart();
+      else finish();
+    };
+    current.start();
+  }
+
+  const start = () => {
+    if (!Recognition || wanted) return;
+    wanted = true;
+    failures = 0;
+    lastError = null;
+    options.onListeningChange(true);
+    listen();
+  };
+
+  const stop = () => {
+    if (recognition) {
+      wanted = false;
+      recognition.stop();
+    } else if (wanted) {
+      // Esperando para tentar de novo: não há reconhecimento para encerrar
+      finish();
+    }
+  };
+
+  return { start, stop, isListening: () => wanted };
+}
@@ -4,6 +4,15 @@ export interface Location {
   lng: number;
 }
 
+/** Minutes since midnight. A `close` at or before `open` ends the next day (e.g. 18:00–02:00). */
+export interface TimeRange {
+  open: number;
+  close: number;
+}
+
+/** Ranges for each weekday, index 0 being Sunday as in `Date.getDay()`. */
+export type WeeklyHours = TimeRange[][];
+
 export interface BusinessPoint {
   id: string;
   name: string;
@@ -12,6 +21,12 @@ export interface BusinessPoint {
   lng: number;
   address?: string;
   status?: 'pending' | 'success' | 'failure';
+  /** No longer returned by the latest AI or imported list. */
+  missing?: boolean;
+  /** When the place is open; unknown hours count as always open. */
+  openingHours?: WeeklyHours;
+  /** When the owner prefers to be visited, within the opening hours. */
+  visitWindows?: WeeklyHours;
 }
 
 export interface District {
@@ -22,6 +37,11 @@ export interface District {
   lng: number;
   covered: boolean;
   population?: string;
+  /** Percentage (0-100) of the district area reached by the tracked path. */
+  coverage?: number;
+  /** Boundary polygon, when known. Point districts use a fixed radius instead. */
+  polygon?: Location[];
+  missing?: boolean;
 }
 
 export interface TrackingPath {
@@ -29,11 +49,92 @@ export interface TrackingPath {
   location: Location;
 }
 
+/** A raw position fix as reported by the device. */
+export interface GpsFix {
+  location: Location;
+  timestamp: number;
+  /** Radius of the 68% confidence circle, in metres. */
+  accuracy?: number;
+}
+
 export interface RouteHistory {
   id: string;
+  startedAt: number;
   date: string;
   startTime: string;
   endTime: string;
   distanceKm: number;
   path: Location[];
+  /** Timestamped fixes of the shift; absent on records saved before timestamps were kept. */
+  track?: TrackingPath[];
+  /** State changes during the shift (breaks, idle periods). */
+  transitions?: ShiftTransition[];
+}
+
+export interface PlannedStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  kind: 'business' | 'district';
+  /** Estimated arrival, when the planner could work it out. */
+  eta?: number;
+}
+
+export interface RouteStep {
+  instruction: string;
+  type: string;
+  modifier?: string;
+  location: Location;
+  /** Index of the maneuver vertex in the route geometry. */
+  geometryIndex: number;
+}
+
+export interface CheckIn {
+  id: string;
+  businessId: string;
+  businessName: string;
+  arrivedAt: number;
+  departedAt?: number;
+  outcome?: 'success' | 'failure';
+}
+
+export type VisitOutcome = 'success' | 'failure';
+
+export interface VisitRecord {
+  id: string;
+  businessId: string;
+  businessName: string;
+  outcome: VisitOutcome;
+  failureReason?: string;
+  note?: string;
+  /** JPEG data URL taken with the device camera. */
+  photo?: string;
+  timestamp: number;
+  position: Location | null;
+}
+
+export type ShiftState = 'notStarted' | 'working' | 'onBreak' | 'idle' | 'finished';
+
+export interface ShiftTransition {
+  state: ShiftState;
+  at: number;
+  /** `auto` when set by idle detection rather than by the agent. */
+  trigger: 'manual' | 'auto';
+}
+
+/** One agent's share of a city's businesses and districts. */
+export interface Territory {
+  agentName: string;
+  color: string;
+  pointIds: string[];
+}
+
+export interface TerritoryPlan {
+  /** Normalized city name; one plan per city. */
+  id: string;
+  territories: Territory[];
+  /** Point ID → agent name, kept across new splits. */
+  pins: Record<string, string>;
+  updatedAt: number;
 }
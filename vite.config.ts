@@ -1,6 +1,8 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { geminiProxyPlugin } from './server/geminiProxy';
+import { teamServerPlugin } from './server/teamHub';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +11,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        geminiProxyPlugin({ apiKey: env.GEMINI_API_KEY || '' }),
+        teamServerPlugin({ token: env.TEAM_TOKEN, supervisorToken: env.TEAM_SUPERVISOR_TOKEN }),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Só a URL do proxy vai para o bundle; a chave fica no servidor
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL || '')
       },
       resolve: {
         alias: {